@@ -0,0 +1,15 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.test.ts"],
+  transform: {
+    // Tests run as CommonJS; the app's tsconfig targets the Next.js bundler
+    "^.+\\.tsx?$": ["ts-jest", { tsconfig: { module: "commonjs", jsx: "react-jsx" } }],
+  },
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
+
+module.exports = jestConfig;
@@ -0,0 +1,78 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runDoctor } from "./doctor";
+import { initProject } from "./init";
+
+describe("runDoctor", () => {
+  const env = process.env;
+  let dir: string;
+  let output: string[];
+
+  function git(...args: string[]) {
+    execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+  }
+
+  function write(filePath: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(dir, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, filePath), content);
+  }
+
+  // A project set up by init and committed on the `content` branch
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-doctor-"));
+    // No GitHub configuration or global git config from the machine
+    process.env = { PATH: env.PATH, HOME: dir, GIT_CONFIG_NOSYSTEM: "1" };
+    output = [];
+    jest.spyOn(process, "cwd").mockReturnValue(dir);
+    jest.spyOn(console, "log").mockImplementation((...args) => output.push(args.join(" ")));
+
+    write("package.json", JSON.stringify({ dependencies: { next: "14.0.0" } }));
+    await initProject({ directory: dir, yes: true, skipInstall: true });
+    git("init", "-q", "-b", "content");
+    git("config", "user.name", "Editor");
+    git("config", "user.email", "editor@example.com");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Add the CMS");
+    output = [];
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("passes on a committed project", async () => {
+    await expect(runDoctor()).resolves.toBe(true);
+
+    expect(output).toContain("  ✔ Next.js project (next 14.0.0)");
+    expect(output).toContain("  ✔ Git repository on branch content");
+    expect(output).toContain("  ✔ Publish branch is the checked-out branch content");
+    expect(output).toContain("  ✔ Not configured; content is stored in the local git repository");
+    expect(output).toContain("  ✔ 1 schema(s) load");
+    expect(output[output.length - 1]).toMatch(/^\n✔ All checks passed/);
+  });
+
+  it("fails on invalid content and a missing publish branch", async () => {
+    write("content/broken.json", "{");
+    process.env.CMS_PUBLISH_BRANCH = "main";
+
+    await expect(runDoctor()).resolves.toBe(false);
+
+    expect(output).toContain("  ✖ Publish branch main not found");
+    expect(output.some((line) => line.startsWith("  ✖ broken.json: invalid JSON"))).toBe(true);
+    expect(output).toContain("  ⚠ 1 uncommitted change(s)");
+    expect(output[output.length - 1]).toMatch(/^\n✖ 2 check\(s\) failed/);
+  });
+
+  it("requires a commit author for local storage", async () => {
+    git("config", "--unset", "user.email");
+
+    await expect(runDoctor()).resolves.toBe(false);
+
+    expect(output).toContain("  ✖ user.email is not set");
+    expect(output).toContain('    Run \'git config user.email "..."\' so commits have an author.');
+  });
+});
@@ -0,0 +1,366 @@
+import fs from "fs";
+import path from "path";
+import { simpleGit } from "simple-git";
+import { ValidationService } from "../../services/validation";
+import { MANIFEST_FILE, getScaffoldFiles, readManifest } from "../scaffold";
+import { detectProjectLayout } from "./init";
+import { findContentFiles } from "./validate";
+
+const SCHEMA_SUFFIX = ".schema.json";
+
+// Loaded in this order by `next dev`; earlier files win
+const ENV_FILES = [".env.development.local", ".env.local", ".env.development", ".env"];
+
+interface DoctorOptions {
+  // Defaults to the content directory recorded by init, then `content`
+  contentDir?: string;
+}
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+interface CheckResult {
+  status: CheckStatus;
+  message: string;
+  // How to fix a warning or failure
+  hint?: string;
+}
+
+interface CheckSection {
+  title: string;
+  results: CheckResult[];
+}
+
+const pass = (message: string): CheckResult => ({ status: "pass", message });
+const warn = (message: string, hint?: string): CheckResult => ({ status: "warn", message, hint });
+const fail = (message: string, hint?: string): CheckResult => ({ status: "fail", message, hint });
+
+const STATUS_ICONS: Record<CheckStatus, string> = { pass: "✔", warn: "⚠", fail: "✖" };
+
+// Reads KEY=value lines from the project's env files; variables already set
+// in the environment take precedence, as in Next.js
+function loadEnv(dir: string): Record<string, string | undefined> {
+  const env: Record<string, string | undefined> = {};
+  for (const file of [...ENV_FILES].reverse()) {
+    const envPath = path.join(dir, file);
+    if (!fs.existsSync(envPath)) continue;
+    for (const line of fs.readFileSync(envPath, "utf-8").split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+      if (!match) continue;
+      const value = match[2]!;
+      env[match[1]!] = /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value.replace(/\s+#.*$/, "");
+    }
+  }
+  return { ...env, ...process.env };
+}
+
+function checkProject(dir: string, contentDir: string): CheckResult[] {
+  const results: CheckResult[] = [];
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(dir, "package.json"), "utf-8"));
+    const next = packageJson.dependencies?.next || packageJson.devDependencies?.next;
+    results.push(
+      next
+        ? pass(`Next.js project (next ${next})`)
+        : fail("package.json has no next dependency", "Run doctor in the root of your Next.js app.")
+    );
+  } catch {
+    results.push(fail("No readable package.json", "Run doctor in the root of your Next.js app."));
+  }
+
+  results.push(
+    fs.existsSync(path.join(dir, contentDir))
+      ? pass(`Content directory ${contentDir}`)
+      : fail(`Content directory ${contentDir} not found`, "Pass --content-dir or create the directory.")
+  );
+  return results;
+}
+
+async function checkGit(
+  dir: string,
+  storageMode: "github" | "local",
+  env: Record<string, string | undefined>
+): Promise<CheckResult[]> {
+  // Local storage commits to this repository; with GitHub it is only a clone
+  const required = storageMode === "local" ? fail : warn;
+  const git = simpleGit({ baseDir: dir });
+
+  try {
+    if (!(await git.checkIsRepo())) {
+      return [required("Not a git repository", "Run 'git init' and commit your content.")];
+    }
+  } catch (error) {
+    return [fail(`git is not available: ${(error as Error).message}`, "Install git.")];
+  }
+
+  const results: CheckResult[] = [];
+  const status = await git.status();
+  results.push(pass(`Git repository on branch ${status.current || "(detached HEAD)"}`));
+  if (status.conflicted.length > 0) {
+    results.push(
+      fail(
+        `${status.conflicted.length} file(s) with merge conflicts: ${status.conflicted.join(", ")}`,
+        "Resolve the conflicts and commit before editing content."
+      )
+    );
+  } else if (!status.isClean()) {
+    results.push(warn(`${status.files.length} uncommitted change(s)`));
+  } else {
+    results.push(pass("Working tree clean"));
+  }
+
+  for (const key of ["user.name", "user.email"]) {
+    const { value } = await git.getConfig(key);
+    results.push(
+      value
+        ? pass(`${key} is ${value}`)
+        : required(`${key} is not set`, `Run 'git config ${key} "..."' so commits have an author.`)
+    );
+  }
+
+  if (storageMode === "local") {
+    // The editor checks out the publish branch when no other one is selected;
+    // without one configured it stays on the branch checked out at startup
+    const publishBranch = env.CMS_PUBLISH_BRANCH || env.GITHUB_BRANCH;
+    const { all } = await git.branchLocal();
+    results.push(
+      !publishBranch
+        ? status.current
+          ? pass(`Publish branch is the checked-out branch ${status.current}`)
+          : warn(
+              "No publish branch on a detached HEAD",
+              "Check out a branch or set CMS_PUBLISH_BRANCH to the branch the site is built from."
+            )
+        : all.includes(publishBranch)
+        ? pass(`Publish branch ${publishBranch} exists`)
+        : fail(
+            `Publish branch ${publishBranch} not found`,
+            "Set CMS_PUBLISH_BRANCH to the branch the site is built from."
+          )
+    );
+
+    const remotes = await git.getRemotes();
+    results.push(
+      remotes.length > 0
+        ? pass(`Remote(s): ${remotes.map((remote) => remote.name).join(", ")}`)
+        : warn("No git remote", "Add one with 'git remote add origin <url>' to push and pull content.")
+    );
+  }
+  return results;
+}
+
+async function checkGitHub(env: Record<string, string | undefined>): Promise<CheckResult[]> {
+  const names = ["GITHUB_TOKEN", "GITHUB_REPO", "GITHUB_OWNER"];
+  const missing = names.filter((name) => !env[name]);
+  if (missing.length === names.length && env.CMS_STORAGE !== "github") {
+    return [pass("Not configured; content is stored in the local git repository")];
+  }
+  if (missing.length > 0) {
+    return [fail(`Missing ${missing.join(", ")}`, "Set GITHUB_TOKEN, GITHUB_REPO and GITHUB_OWNER in .env.local.")];
+  }
+
+  const results = [pass(`GITHUB_TOKEN, GITHUB_REPO and GITHUB_OWNER are set (${env.GITHUB_OWNER}/${env.GITHUB_REPO})`)];
+  const apiUrl = (env.GITHUB_API_URL || "https://api.github.com").replace(/\/+$/, "");
+  const repoUrl = `${apiUrl}/repos/${env.GITHUB_OWNER}/${env.GITHUB_REPO}`;
+  const headers = {
+    Authorization: `token ${env.GITHUB_TOKEN}`,
+    Accept: "application/vnd.github.v3+json",
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(repoUrl, { headers });
+  } catch (error) {
+    return [...results, fail(`Could not reach ${apiUrl}: ${(error as Error).message}`)];
+  }
+  if (response.status === 401) {
+    return [...results, fail("GITHUB_TOKEN was rejected", "Create a new token; it may have expired.")];
+  }
+  if (!response.ok) {
+    return [
+      ...results,
+      fail(
+        `Repository ${env.GITHUB_OWNER}/${env.GITHUB_REPO} is not accessible (${response.status})`,
+        "Check GITHUB_OWNER and GITHUB_REPO, and that the token has access to the repository."
+      ),
+    ];
+  }
+
+  // Classic tokens list their scopes in a header; fine-grained tokens do not,
+  // so their access shows in the repository permissions instead
+  const repository = (await response.json()) as { private?: boolean; permissions?: { push?: boolean } };
+  const scopeHeader = response.headers.get("x-oauth-scopes");
+  if (scopeHeader !== null) {
+    const scopes = scopeHeader.split(",").map((scope) => scope.trim()).filter(Boolean);
+    const canWrite = scopes.includes("repo") || (scopes.includes("public_repo") && !repository.private);
+    results.push(
+      canWrite
+        ? pass(`Token scopes: ${scopes.join(", ")}`)
+        : fail(
+            `Token scopes (${scopes.join(", ") || "none"}) do not allow committing`,
+            `Create a token with the ${repository.private ? "repo" : "public_repo"} scope.`
+          )
+    );
+  } else {
+    results.push(
+      repository.permissions?.push
+        ? pass("Token can push to the repository")
+        : fail("Token cannot push to the repository", "Grant the token read and write access to contents.")
+    );
+  }
+
+  const branch = env.GITHUB_BRANCH || "main";
+  try {
+    const branchResponse = await fetch(`${repoUrl}/branches/${encodeURIComponent(branch)}`, { headers });
+    results.push(
+      branchResponse.ok
+        ? pass(`Branch ${branch} exists`)
+        : fail(`Branch ${branch} not found (${branchResponse.status})`, "Set GITHUB_BRANCH to an existing branch.")
+    );
+  } catch (error) {
+    results.push(fail(`Could not check branch ${branch}: ${(error as Error).message}`));
+  }
+  return results;
+}
+
+function checkSchemas(schemaDir: string, contentDir: string): CheckResult[] {
+  const files = fs.existsSync(schemaDir)
+    ? findContentFiles(schemaDir, schemaDir).filter((file) => file.endsWith(SCHEMA_SUFFIX))
+    : [];
+  if (files.length === 0) {
+    return [warn("No schemas found", `Add {name}${SCHEMA_SUFFIX} files to ${path.relative(process.cwd(), schemaDir)}.`)];
+  }
+
+  const validationService = new ValidationService();
+  const failures = files.flatMap((file) => {
+    try {
+      validationService.loadSchemaFromJson(fs.readFileSync(file, "utf-8"));
+      return [];
+    } catch (error) {
+      return [fail(`${path.relative(contentDir, file)}: ${(error as Error).message}`)];
+    }
+  });
+  return failures.length > 0 ? failures : [pass(`${files.length} schema(s) load`)];
+}
+
+function checkContent(contentDir: string, schemaDir: string): CheckResult[] {
+  const files = findContentFiles(contentDir, schemaDir);
+  if (files.length === 0) {
+    return [warn("No content files found")];
+  }
+
+  const invalid: CheckResult[] = [];
+  const withoutSchema: string[] = [];
+  for (const file of files) {
+    const key = path.relative(contentDir, file).split(path.sep).join("/");
+    try {
+      JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (error) {
+      invalid.push(fail(`${key}: invalid JSON (${(error as Error).message})`));
+      continue;
+    }
+    if (!fs.existsSync(path.join(schemaDir, key.slice(0, -".json".length) + SCHEMA_SUFFIX))) {
+      withoutSchema.push(key);
+    }
+  }
+
+  const results = [pass(`${files.length - invalid.length} of ${files.length} file(s) are valid JSON`), ...invalid];
+  if (withoutSchema.length > 0) {
+    results.push(
+      warn(
+        `${withoutSchema.length} file(s) have no schema: ${withoutSchema.join(", ")}`,
+        "Files without a schema are saved without validation."
+      )
+    );
+  }
+  return results;
+}
+
+// The editor page and API routes init adds, from the manifest when there is one
+function checkRoutes(dir: string, contentDir: string): CheckResult[] {
+  const manifest = readManifest(dir);
+  const layout = detectProjectLayout(dir);
+  const options = manifest?.options || {
+    router: layout.router || "pages",
+    useSrc: layout.useSrc ?? fs.existsSync(path.join(dir, "src")),
+    alias: "@/",
+    contentDir,
+  };
+
+  const routes = getScaffoldFiles(options)
+    .filter((file) => file.role === "cms" && /(^|\/)pages\//.test(file.path))
+    .map((file) => file.path);
+  const missing = routes.filter((route) => !fs.existsSync(path.join(dir, route)));
+  const results = missing.map((route) =>
+    fail(`Missing ${route}`, "Run 'next-json-cms upgrade' (or 'init' without a manifest) to add it.")
+  );
+  if (missing.length === 0) {
+    results.push(pass(`${routes.length} CMS route(s) present`));
+  }
+  if (!manifest) {
+    results.push(warn(`No ${MANIFEST_FILE}`, "Routes were checked against the detected layout; upgrade needs the manifest."));
+  }
+  return results;
+}
+
+function printReport(sections: CheckSection[]): { failures: number; warnings: number } {
+  let failures = 0;
+  let warnings = 0;
+  for (const section of sections) {
+    console.log(`\n${section.title}`);
+    for (const result of section.results) {
+      console.log(`  ${STATUS_ICONS[result.status]} ${result.message}`);
+      if (result.hint && result.status !== "pass") {
+        console.log(`    ${result.hint}`);
+      }
+      if (result.status === "fail") failures++;
+      if (result.status === "warn") warnings++;
+    }
+  }
+  return { failures, warnings };
+}
+
+/**
+ * Checks the CMS setup of the current project and prints a report. Resolves
+ * to false when any check fails so the CLI can exit with a non-zero status.
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<boolean> {
+  const dir = process.cwd();
+  const env = loadEnv(dir);
+  let manifestContentDir: string | undefined;
+  try {
+    manifestContentDir = readManifest(dir)?.options.contentDir;
+  } catch {
+    // Reported by the routes check
+  }
+  const contentDir = options.contentDir || manifestContentDir || "content";
+  const contentPath = path.resolve(dir, contentDir);
+  const schemaDir = path.join(contentPath, "schema");
+  const storageMode =
+    env.CMS_STORAGE === "github" ||
+    (env.CMS_STORAGE !== "local" && env.GITHUB_TOKEN && env.GITHUB_REPO && env.GITHUB_OWNER)
+      ? "github"
+      : "local";
+
+  console.log("🩺 Checking the JSON CMS setup...");
+  const hasContent = fs.existsSync(contentPath);
+  const sections: CheckSection[] = [
+    { title: "Project", results: checkProject(dir, contentDir) },
+    { title: "Git", results: await checkGit(dir, storageMode, env) },
+    { title: "GitHub", results: await checkGitHub(env) },
+    { title: "Schemas", results: hasContent ? checkSchemas(schemaDir, contentPath) : [] },
+    { title: "Content", results: hasContent ? checkContent(contentPath, schemaDir) : [] },
+  ];
+  try {
+    sections.push({ title: "Routes", results: checkRoutes(dir, contentDir) });
+  } catch (error) {
+    sections.push({ title: "Routes", results: [fail((error as Error).message)] });
+  }
+
+  const { failures, warnings } = printReport(sections.filter((section) => section.results.length > 0));
+  console.log(
+    failures > 0
+      ? `\n✖ ${failures} check(s) failed, ${warnings} warning(s)`
+      : `\n✔ All checks passed${warnings > 0 ? ` with ${warnings} warning(s)` : ""}`
+  );
+  return failures === 0;
+}
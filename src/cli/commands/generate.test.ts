@@ -0,0 +1,74 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { generateContentModule } from "./generate";
+
+describe("generateContentModule", () => {
+  let dir: string;
+
+  function writeSchema(name: string, schema: object) {
+    const file = path.join(dir, "schema", `${name}.schema.json`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(schema));
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-generate-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("declares one type per schema and maps content names to them", () => {
+    writeSchema("blog", {
+      type: "object",
+      description: "Blog posts",
+      properties: {
+        title: { type: "string", description: "Shown in the list" },
+        tags: { type: "array", items: { type: "string" } },
+        status: { enum: ["draft", "published"] },
+      },
+      required: ["title"],
+    });
+    writeSchema("pages/about-us", { type: "object", properties: { body: { type: "string" } } });
+
+    const source = generateContentModule(path.join(dir, "schema"), "content");
+
+    expect(source).toContain("/** Content of blog.json. Blog posts */\nexport interface Blog {");
+    expect(source).toContain("  /** Shown in the list */\n  title: string;");
+    expect(source).toContain("  tags?: Array<string>;");
+    expect(source).toContain('  status?: "draft" | "published";');
+    expect(source).toContain("export interface PagesAboutUs {");
+    expect(source).toContain('  blog: Blog;\n  "pages/about-us": PagesAboutUs;');
+    expect(source).toContain('new ContentLoader<ContentTypes>({ contentDir: "content" })');
+  });
+
+  it("names definitions so references resolve", () => {
+    writeSchema("menu", {
+      type: "array",
+      items: { $ref: "#/definitions/item" },
+      definitions: {
+        item: {
+          type: "object",
+          properties: { label: { type: "string" }, children: { type: "array", items: { $ref: "#/definitions/item" } } },
+        },
+      },
+    });
+
+    const source = generateContentModule(path.join(dir, "schema"), "content");
+
+    expect(source).toContain("export type Menu = Array<MenuItem>;");
+    expect(source).toContain("export interface MenuItem {");
+    expect(source).toContain("  children?: Array<MenuItem>;");
+  });
+
+  it("reports the schema that fails to parse", () => {
+    fs.mkdirSync(path.join(dir, "schema"));
+    fs.writeFileSync(path.join(dir, "schema", "broken.schema.json"), "{");
+
+    expect(() => generateContentModule(path.join(dir, "schema"), "content")).toThrow(
+      /^Invalid schema broken\.schema\.json: /
+    );
+  });
+});
@@ -0,0 +1,278 @@
+import fs from "fs";
+import path from "path";
+import type { JsonSchema } from "../../utils/jsonSchema";
+
+const SCHEMA_SUFFIX = ".schema.json";
+
+interface GenerateOptions {
+  contentDir: string;
+  // Defaults to lib/content.ts, inside src/ when the project has one
+  out?: string;
+}
+
+// Shared state while converting one schema document
+interface TypeContext {
+  // JSON pointers of named definitions (and `#` for the root) to type names
+  names: Map<string, string>;
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+function toTypeName(name: string, taken: Set<string>): string {
+  let base = toPascalCase(name) || "Content";
+  if (/^[0-9]/.test(base)) {
+    base = `Content${base}`;
+  }
+
+  let typeName = base;
+  for (let index = 2; taken.has(typeName); index++) {
+    typeName = `${base}${index}`;
+  }
+  taken.add(typeName);
+  return typeName;
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatComment(schema: JsonSchema, pad: string): string {
+  const text = schema.description || schema.title;
+  if (typeof text !== "string" || !text) {
+    return "";
+  }
+  return `${pad}/** ${text.replace(/\*\//g, "*\\/").replace(/\s*\n\s*/g, " ")} */\n`;
+}
+
+// Parenthesizes unions used as intersection members
+function wrapUnion(type: string): string {
+  return type.includes(" | ") && !type.startsWith("{") ? `(${type})` : type;
+}
+
+function renderObject(schema: JsonSchema, context: TypeContext, depth: number): string {
+  const properties = Object.entries(schema.properties || {});
+  const additional = schema.additionalProperties;
+  if (properties.length === 0 && (additional === undefined || additional === true)) {
+    return "Record<string, unknown>";
+  }
+
+  const pad = "  ".repeat(depth + 1);
+  const required = new Set(schema.required || []);
+  const lines = properties.map(([key, property]) => {
+    const optional = required.has(key) ? "" : "?";
+    return `${formatComment(property, pad)}${pad}${formatKey(key)}${optional}: ${renderType(property, context, depth + 1)};`;
+  });
+  if (typeof additional === "object") {
+    lines.push(`${pad}[key: string]: ${renderType(additional, context, depth + 1)};`);
+  }
+
+  return `{\n${lines.join("\n")}\n${"  ".repeat(depth)}}`;
+}
+
+/**
+ * Renders a JSON schema as a TypeScript type expression. Keywords that
+ * only constrain values (lengths, patterns, ranges) have no type-level
+ * counterpart and are left to validation.
+ */
+function renderType(schema: JsonSchema | boolean, context: TypeContext, depth: number): string {
+  if (schema === true) return "unknown";
+  if (schema === false) return "never";
+
+  if (schema.$ref) {
+    return context.names.get(schema.$ref) || "unknown";
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (variants && variants.length > 0) {
+    return variants.map((variant) => renderType(variant, context, depth)).join(" | ");
+  }
+  if (schema.allOf && schema.allOf.length > 0) {
+    return schema.allOf
+      .map((part) => wrapUnion(renderType(part, context, depth)))
+      .join(" & ");
+  }
+
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+    ? [schema.type]
+    : schema.properties
+    ? ["object"]
+    : schema.items
+    ? ["array"]
+    : [];
+  if (types.length === 0) {
+    return "unknown";
+  }
+
+  return types
+    .map((type) => {
+      switch (type) {
+        case "string":
+          return "string";
+        case "number":
+        case "integer":
+          return "number";
+        case "boolean":
+          return "boolean";
+        case "null":
+          return "null";
+        case "array":
+          return `Array<${schema.items ? renderType(schema.items, context, depth) : "unknown"}>`;
+        case "object":
+          return renderObject(schema, context, depth);
+        default:
+          return "unknown";
+      }
+    })
+    .join(" | ");
+}
+
+function renderDeclaration(name: string, schema: JsonSchema, context: TypeContext): string {
+  const type = renderType(schema, context, 0);
+  return type.startsWith("{")
+    ? `export interface ${name} ${type}`
+    : `export type ${name} = ${type};`;
+}
+
+function findSchemaFiles(dir: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findSchemaFiles(entryPath));
+    } else if (entry.name.endsWith(SCHEMA_SUFFIX)) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join("/");
+}
+
+/**
+ * Builds the module with one type per schema, the `ContentTypes` map from
+ * content names to those types and a typed `getContent` loader.
+ */
+export function generateContentModule(schemaDir: string, contentDir: string): string {
+  const taken = new Set(["ContentTypes"]);
+  const declarations: string[] = [];
+  const entries: string[] = [];
+
+  for (const file of findSchemaFiles(schemaDir)) {
+    const relative = toPosix(path.relative(schemaDir, file));
+    const contentName = relative.slice(0, -SCHEMA_SUFFIX.length);
+
+    let schema: JsonSchema;
+    try {
+      schema = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (error) {
+      throw new Error(`Invalid schema ${relative}: ${(error as Error).message}`);
+    }
+
+    const typeName = toTypeName(contentName, taken);
+    const context: TypeContext = { names: new Map([["#", typeName]]) };
+    // Definitions become named types so references (and recursion) work
+    const definitions: Array<[string, JsonSchema]> = [];
+    for (const keyword of ["definitions", "$defs"] as const) {
+      for (const [key, definition] of Object.entries(schema[keyword] || {})) {
+        const definitionName = toTypeName(`${typeName} ${key}`, taken);
+        const pointer = key.replace(/~/g, "~0").replace(/\//g, "~1");
+        context.names.set(`#/${keyword}/${pointer}`, definitionName);
+        definitions.push([definitionName, definition]);
+      }
+    }
+
+    const summary = [`Content of ${contentName}.json`, schema.description || schema.title]
+      .filter(Boolean)
+      .join(". ");
+    declarations.push(
+      `${formatComment({ description: summary }, "")}${renderDeclaration(typeName, schema, context)}`
+    );
+    for (const [definitionName, definition] of definitions) {
+      declarations.push(`${formatComment(definition, "")}${renderDeclaration(definitionName, definition, context)}`);
+    }
+    entries.push(`  ${formatKey(contentName)}: ${typeName};`);
+  }
+
+  return [
+    "// Generated by `next-json-cms generate` from the content schemas. Do not",
+    "// edit; run the command again after changing a schema.",
+    'import { ContentLoader } from "next-json-cms";',
+    "",
+    ...declarations.map((declaration) => `${declaration}\n`),
+    "export interface ContentTypes {",
+    ...entries,
+    "}",
+    "",
+    `const loader = new ContentLoader<ContentTypes>({ contentDir: ${JSON.stringify(contentDir)} });`,
+    "",
+    "/**",
+    " * Reads a content file, e.g. `getContent(\"blog\")` for `blog.json`, and",
+    " * validates it against its schema. Use it in `getStaticProps` or in server",
+    " * components; invalid content throws a ValidationError and fails the build.",
+    " */",
+    "export function getContent<K extends keyof ContentTypes & string>(name: K): Promise<ContentTypes[K]> {",
+    "  return loader.getContent(name);",
+    "}",
+    "",
+  ].join("\n");
+}
+
+function hasPackage(name: string): boolean {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync("package.json", "utf-8"));
+    return !!packageJson.dependencies?.[name] || !!packageJson.devDependencies?.[name];
+  } catch {
+    return false;
+  }
+}
+
+export async function generateTypes(options: GenerateOptions): Promise<void> {
+  const contentDir = path.resolve(options.contentDir);
+  const schemaDir = path.join(contentDir, "schema");
+  if (!fs.existsSync(contentDir)) {
+    throw new Error(`Content directory ${options.contentDir} not found`);
+  }
+
+  const out = path.resolve(
+    options.out || (fs.existsSync("src") ? "src/lib/content.ts" : "lib/content.ts")
+  );
+  const source = generateContentModule(
+    schemaDir,
+    toPosix(path.relative(process.cwd(), contentDir)) || "."
+  );
+
+  await fs.promises.mkdir(path.dirname(out), { recursive: true });
+  await fs.promises.writeFile(out, source);
+
+  const count = findSchemaFiles(schemaDir).length;
+  console.log(`✨ Generated types for ${count} schema(s) in ${path.relative(process.cwd(), out)}`);
+  if (count === 0) {
+    console.log(`No ${SCHEMA_SUFFIX} files found in ${path.relative(process.cwd(), schemaDir)}.`);
+  }
+  if (!hasPackage("next-json-cms")) {
+    console.log("The generated loader imports next-json-cms; add it with 'npm install next-json-cms'.");
+  }
+}
@@ -0,0 +1,28 @@
+import { default as inquirer } from "inquirer";
+import { hashPassword } from "../../services/auth/password";
+
+export async function printPasswordHash(password?: string): Promise<void> {
+  if (!password) {
+    const answers = await inquirer.prompt([
+      {
+        type: "password",
+        name: "password",
+        message: "Password:",
+        mask: "*",
+        validate: (value: string) => value.length > 0 || "Password cannot be empty",
+      },
+      {
+        type: "password",
+        name: "confirm",
+        message: "Confirm password:",
+        mask: "*",
+      },
+    ]);
+    if (answers.password !== answers.confirm) {
+      throw new Error("Passwords do not match");
+    }
+    password = answers.password as string;
+  }
+
+  console.log(await hashPassword(password));
+}
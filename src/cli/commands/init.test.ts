@@ -0,0 +1,89 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MANIFEST_FILE, readManifest } from "../scaffold";
+import { initProject } from "./init";
+
+describe("initProject", () => {
+  let dir: string;
+
+  function write(filePath: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(dir, filePath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, filePath), content);
+  }
+
+  function read(filePath: string): string {
+    return fs.readFileSync(path.join(dir, filePath), "utf-8");
+  }
+
+  // An existing Next.js app, so init neither runs create-next-app nor
+  // prompts; dependencies are added to package.json without installing
+  async function init(options: { force?: boolean; contentDir?: string } = {}) {
+    await initProject({ directory: dir, yes: true, skipInstall: true, ...options });
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-init-"));
+    write("package.json", JSON.stringify({ dependencies: { next: "14.0.0" } }));
+    write("src/app/page.tsx", "export default function Page() { return null; }\n");
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("adds the CMS with the project's import alias and content directory", async () => {
+    write(
+      "tsconfig.json",
+      '{\n  // comments are allowed\n  "compilerOptions": { "paths": { "~/*": ["./src/*"] } },\n}\n'
+    );
+
+    await init({ contentDir: "data" });
+
+    expect(read("src/pages/editor/index.tsx")).toContain('from "~/components/editor');
+    expect(read("src/pages/editor/index.tsx")).not.toContain('"@/');
+    expect(read("src/utils/contentPath.ts")).toContain('CONTENT_DIR = "data"');
+    expect(fs.existsSync(path.join(dir, "data", "example.json"))).toBe(true);
+    // The existing home page is kept
+    expect(read("src/app/page.tsx")).toBe("export default function Page() { return null; }\n");
+    expect(readManifest(dir)!.options).toEqual({
+      router: "app",
+      useSrc: true,
+      alias: "~/",
+      contentDir: "data",
+    });
+    expect(JSON.parse(read("package.json")).dependencies).toHaveProperty("zustand");
+  });
+
+  it("adds the @/ alias when the project has none", async () => {
+    await init();
+
+    expect(JSON.parse(read("tsconfig.json")).compilerOptions.paths).toEqual({ "@/*": ["./src/*"] });
+    expect(read("src/pages/editor/index.tsx")).toContain('from "@/components/editor');
+  });
+
+  it("ignores the server state but not the manifest", async () => {
+    write(".gitignore", "node_modules/");
+
+    await init();
+    await init({ force: true });
+
+    const gitignore = read(".gitignore");
+    expect(gitignore).toMatch(/^node_modules\/\n\n# JSON CMS server state/);
+    for (const entry of ["/.json-cms/staging.json", "/.json-cms/staging/", "/.json-cms/change-requests.json"]) {
+      expect(gitignore.split("\n").filter((line) => line === entry)).toHaveLength(1);
+    }
+    expect(gitignore).not.toMatch(/^\/?\.json-cms\/?$/m);
+    expect(fs.existsSync(path.join(dir, MANIFEST_FILE))).toBe(true);
+  });
+
+  it("refuses to overwrite changed CMS files without --force", async () => {
+    await init();
+    write("src/utils/jsonDiff.ts", "// customized\n");
+
+    await expect(init()).rejects.toThrow("src/utils/jsonDiff.ts");
+    expect(read("src/utils/jsonDiff.ts")).toBe("// customized\n");
+  });
+});
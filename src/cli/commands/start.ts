@@ -55,7 +55,7 @@ export async function startEditor(options: StartOptions): Promise<void> {
   // Check if we're in a project directory
   if (!fs.existsSync(path.join(process.cwd(), "content"))) {
     throw new Error(
-      "No content directory found. Please run this command in a JSON CMS project directory."
+      "No content directory found. Please run this command in a JSON CMS project directory, or run 'next-json-cms doctor' to check the setup."
     );
   }
 
@@ -0,0 +1,110 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  ScaffoldOptions,
+  createManifest,
+  createManifestEntry,
+  getPackageVersion,
+  getScaffoldFiles,
+  hashContent,
+  readManifest,
+  writeManifest,
+} from "../scaffold";
+import { upgradeProject } from "./upgrade";
+
+const OPTIONS: ScaffoldOptions = { router: "pages", useSrc: true, alias: "@/", contentDir: "content" };
+
+// A CMS file of this version and its first line swapped for `firstLine`
+const file = getScaffoldFiles(OPTIONS).find((scaffoldFile) => scaffoldFile.path === "src/utils/jsonDiff.ts")!;
+function withFirstLine(firstLine: string): string {
+  return [firstLine, ...file.content.split("\n").slice(1)].join("\n");
+}
+
+describe("upgradeProject", () => {
+  let dir: string;
+  let output: string[];
+  const version = getPackageVersion();
+
+  // A project set up by an older version whose CMS files are all deleted,
+  // except `file` with the given base and content
+  function setUp(base: string, content: string, baseVersion = "0.9.0") {
+    const manifest = createManifest(OPTIONS, getScaffoldFiles(OPTIONS));
+    manifest.version = "0.9.1";
+    manifest.files[file.path] = createManifestEntry(base, baseVersion);
+    writeManifest(dir, manifest);
+    fs.mkdirSync(path.dirname(path.join(dir, file.path)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file.path), content);
+  }
+
+  function readFile(): string {
+    return fs.readFileSync(path.join(dir, file.path), "utf-8");
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-upgrade-"));
+    // Every dependency is present, so package.json is left alone
+    const dependencies = Object.fromEntries(
+      ["@monaco-editor/react", "classnames", "isomorphic-git", "lodash", "zod", "zustand", "@types/lodash"].map(
+        (name) => [name, "*"]
+      )
+    );
+    fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ dependencies }));
+    output = [];
+    jest.spyOn(process, "cwd").mockReturnValue(dir);
+    jest.spyOn(console, "log").mockImplementation((...args) => output.push(args.join(" ")));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replaces files the project has not changed and records the new hash", async () => {
+    const old = withFirstLine("// old version");
+    setUp(old, old);
+
+    expect(await upgradeProject()).toBe(true);
+
+    expect(readFile()).toBe(file.content);
+    expect(readManifest(dir)!.files[file.path]).toEqual({
+      hash: hashContent(file.content),
+      content: file.content,
+      version,
+    });
+  });
+
+  it("keeps customized files and labels conflicts with the version of their base", async () => {
+    setUp(withFirstLine("// base"), withFirstLine("// mine"), "0.9.0");
+
+    expect(await upgradeProject()).toBe(true);
+
+    expect(readFile()).toBe(withFirstLine("// mine"));
+    expect(output.join("\n")).toContain(`Conflicts with your changes (yours | 0.9.0 | ${version})`);
+    expect(readManifest(dir)!.files[file.path]).toMatchObject({ version: "0.9.0" });
+  });
+
+  it("merges clean changes into customized files with --merge", async () => {
+    const base = withFirstLine("// base");
+    setUp(base, `${base}\n// my addition\n`);
+
+    expect(await upgradeProject({ merge: true })).toBe(true);
+
+    expect(readFile()).toBe(`${file.content}\n// my addition\n`);
+    expect(readManifest(dir)!.files[file.path]!.hash).toBe(hashContent(file.content));
+  });
+
+  it("fails and keeps the old base when --merge leaves conflicts", async () => {
+    const base = withFirstLine("// base");
+    setUp(base, withFirstLine("// mine"));
+
+    expect(await upgradeProject({ merge: true })).toBe(false);
+
+    expect(readFile()).toContain("<<<<<<< yours");
+    expect(readFile()).toContain("||||||| 0.9.0");
+    expect(readManifest(dir)!.files[file.path]).toMatchObject({ hash: hashContent(base), version: "0.9.0" });
+
+    // The next run flags the file again
+    expect(await upgradeProject({ merge: true })).toBe(false);
+  });
+});
@@ -0,0 +1,280 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFileSync } from "child_process";
+import {
+  MANIFEST_FILE,
+  ManifestEntry,
+  ScaffoldManifest,
+  addMissingDependencies,
+  createManifestEntry,
+  getPackageVersion,
+  getScaffoldFiles,
+  hashContent,
+  readManifest,
+  writeManifest,
+} from "../scaffold";
+
+interface UpgradeOptions {
+  // Report and show diffs without writing anything
+  dryRun?: boolean;
+  // Merge new versions into customized files, leaving conflict markers
+  merge?: boolean;
+}
+
+// What upgrade changed, printed when it finishes
+interface UpgradeSummary {
+  updated: string[];
+  added: string[];
+  removed: string[];
+  merged: string[];
+  conflicts: string[];
+  // Customized files that also changed in the new version, left as they are
+  review: string[];
+  // Customized files without changes in the new version
+  kept: string[];
+  // Removed in the new version but customized, or deleted in the project
+  skipped: string[];
+  dependencies: string[];
+}
+
+interface GitResult {
+  status: number;
+  stdout: string;
+}
+
+// Runs git and returns its output. `git diff` and `git merge-file` report
+// differences and conflicts through the exit status, so it is returned
+// instead of thrown.
+function runGit(args: string[], cwd: string): GitResult {
+  try {
+    return { status: 0, stdout: execFileSync("git", args, { cwd, encoding: "utf-8" }) };
+  } catch (error) {
+    const { status, stdout, code } = error as { status?: number; stdout?: string; code?: string };
+    if (code === "ENOENT") {
+      throw new Error("git is required to compare the CMS files");
+    }
+    if (typeof status !== "number" || status > 127) {
+      throw error;
+    }
+    return { status, stdout: stdout || "" };
+  }
+}
+
+function withTempDir<T>(callback: (dir: string) => T): T {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "next-json-cms-"));
+  try {
+    return callback(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Unified diff of a file between two versions, with git-style a/ and b/ paths
+function diffVersions(filePath: string, before: string, after: string): string {
+  return withTempDir((dir) => {
+    for (const [side, content] of [["a", before], ["b", after]] as const) {
+      const target = path.join(dir, side, filePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    }
+    const color = process.stdout.isTTY ? "--color=always" : "--no-color";
+    return runGit(["diff", "--no-index", "--no-prefix", color, `a/${filePath}`, `b/${filePath}`], dir).stdout;
+  });
+}
+
+/**
+ * Three-way merge of the project's file with the new version, using the
+ * version init wrote as the base. Conflicts are marked in diff3 style.
+ */
+function mergeVersions(
+  current: string,
+  base: string,
+  next: string,
+  labels: [string, string, string]
+): { content: string; conflicts: number } {
+  return withTempDir((dir) => {
+    const files: Array<[string, string]> = [["current", current], ["base", base], ["next", next]];
+    files.forEach(([name, content]) => fs.writeFileSync(path.join(dir, name), content));
+    const labelArgs = labels.flatMap((label) => ["-L", label]);
+    const names = files.map(([name]) => name);
+    const { status, stdout } = runGit(["merge-file", "-p", "--diff3", ...labelArgs, ...names], dir);
+    return { content: stdout, conflicts: status };
+  });
+}
+
+// The conflicting hunks of a diff3-style merge
+function formatConflicts(merged: string): string {
+  const lines: string[] = [];
+  let inConflict = false;
+  for (const line of merged.split("\n")) {
+    if (line.startsWith("<<<<<<< ")) inConflict = true;
+    if (inConflict) lines.push(line);
+    if (line.startsWith(">>>>>>> ")) {
+      inConflict = false;
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+function printSummary(summary: UpgradeSummary, dryRun: boolean): void {
+  const sections: Array<[string, string[]]> = [
+    [dryRun ? "Would update" : "Updated", summary.updated],
+    [dryRun ? "Would add" : "Added", summary.added],
+    [dryRun ? "Would remove" : "Removed", summary.removed],
+    ["Merged", summary.merged],
+    ["Merged with conflicts (resolve the markers)", summary.conflicts],
+    ["Customized and changed in this version (review the diffs above)", summary.review],
+    ["Customized, no changes in this version", summary.kept],
+    ["Skipped", summary.skipped],
+    [dryRun ? "Would add dependencies" : "Added dependencies", summary.dependencies],
+  ];
+
+  console.log("\nSummary:");
+  for (const [title, items] of sections) {
+    if (items.length === 0) continue;
+    console.log(`\n${title}:`);
+    items.forEach((item) => console.log(`  ${item}`));
+  }
+}
+
+/**
+ * Updates the CMS files that init added to the current project. Files the
+ * project has not changed are replaced with this version; customized files
+ * are left alone and shown as a three-way diff, or merged with `merge`.
+ * Resolves to false when a merge left conflict markers.
+ */
+export async function upgradeProject(options: UpgradeOptions = {}): Promise<boolean> {
+  const dir = process.cwd();
+  const dryRun = !!options.dryRun;
+  const manifest = readManifest(dir);
+  if (!manifest) {
+    throw new Error(
+      `${MANIFEST_FILE} not found. Projects set up before upgrade support have no manifest; ` +
+        "run 'next-json-cms init --force' to replace the CMS files and review the changes with git diff."
+    );
+  }
+
+  const version = getPackageVersion();
+  const next: ScaffoldManifest = { version, options: manifest.options, files: {} };
+  const summary: UpgradeSummary = {
+    updated: [],
+    added: [],
+    removed: [],
+    merged: [],
+    conflicts: [],
+    review: [],
+    kept: [],
+    skipped: [],
+    dependencies: [],
+  };
+  const writes: Array<[string, string]> = [];
+  const deletes: string[] = [];
+
+  const toEntry = (content: string) => createManifestEntry(content, version);
+  // Entries carried over keep the version of their content
+  const keepEntry = (entry: ManifestEntry): ManifestEntry => ({
+    ...entry,
+    version: entry.version || manifest.version,
+  });
+
+  console.log(`Upgrading the CMS files from ${manifest.version} to ${version}${dryRun ? " (dry run)" : ""}\n`);
+
+  const files = getScaffoldFiles(manifest.options).filter((file) => file.role === "cms");
+  for (const file of files) {
+    const target = path.join(dir, file.path);
+    const base = manifest.files[file.path];
+    const current = fs.existsSync(target) ? fs.readFileSync(target, "utf-8") : null;
+
+    if (current === null) {
+      if (base) {
+        // Deleted on purpose; keep the entry so later upgrades respect it
+        next.files[file.path] = keepEntry(base);
+        summary.skipped.push(`${file.path} (deleted in this project)`);
+      } else {
+        writes.push([target, file.content]);
+        next.files[file.path] = toEntry(file.content);
+        summary.added.push(file.path);
+      }
+    } else if (current === file.content) {
+      next.files[file.path] = toEntry(file.content);
+    } else if (!base) {
+      // A project file at a path that init did not write
+      console.log(`✎ ${file.path} exists but was not added by init. The new version:\n`);
+      console.log(diffVersions(file.path, current, file.content));
+      summary.skipped.push(`${file.path} (not added by init)`);
+    } else if (hashContent(current) === base.hash) {
+      writes.push([target, file.content]);
+      next.files[file.path] = toEntry(file.content);
+      summary.updated.push(file.path);
+    } else if (base.content === file.content) {
+      next.files[file.path] = keepEntry(base);
+      summary.kept.push(file.path);
+    } else {
+      // Files kept for review still have the base of an older version
+      const baseVersion = base.version || manifest.version;
+      const merged = mergeVersions(current, base.content, file.content, ["yours", baseVersion, version]);
+      console.log(`✎ ${file.path} is customized and changed in ${version}:\n`);
+      console.log(diffVersions(file.path, base.content, file.content));
+
+      if (options.merge) {
+        writes.push([target, merged.content]);
+        if (merged.conflicts > 0) {
+          // The old base stays recorded, so the next upgrade flags the file
+          // again until the markers are resolved
+          next.files[file.path] = keepEntry(base);
+          summary.conflicts.push(file.path);
+        } else {
+          next.files[file.path] = toEntry(file.content);
+          summary.merged.push(file.path);
+        }
+      } else {
+        // The old base stays recorded, so the diff is shown until merged
+        next.files[file.path] = keepEntry(base);
+        summary.review.push(file.path);
+        if (merged.conflicts > 0) {
+          console.log(`Conflicts with your changes (yours | ${baseVersion} | ${version}):\n`);
+          console.log(formatConflicts(merged.content));
+        } else {
+          console.log("This merges cleanly with your changes; run upgrade with --merge to apply it.\n");
+        }
+      }
+    }
+  }
+
+  // Files the new version no longer has
+  const paths = new Set(files.map((file) => file.path));
+  for (const [filePath, base] of Object.entries(manifest.files)) {
+    const target = path.join(dir, filePath);
+    if (paths.has(filePath) || !fs.existsSync(target)) continue;
+    if (hashContent(fs.readFileSync(target, "utf-8")) === base.hash) {
+      deletes.push(target);
+      summary.removed.push(filePath);
+    } else {
+      summary.skipped.push(`${filePath} (no longer part of the CMS, but customized)`);
+    }
+  }
+
+  summary.dependencies.push(...addMissingDependencies(dir, dryRun));
+  if (!dryRun) {
+    for (const [target, content] of writes) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    }
+    deletes.forEach((target) => fs.rmSync(target));
+    writeManifest(dir, next);
+  }
+
+  const changes = writes.length + deletes.length + summary.review.length + summary.dependencies.length;
+  if (changes === 0) {
+    console.log(`✨ The CMS files are up to date with ${version}.`);
+    return true;
+  }
+
+  printSummary(summary, dryRun);
+  if (summary.dependencies.length > 0 && !dryRun) {
+    console.log("\nInstall the added dependencies with your package manager, e.g. 'npm install'.");
+  }
+  return summary.conflicts.length === 0;
+}
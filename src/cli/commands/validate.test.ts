@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import { validateContent } from "./validate";
+
+const PACKAGE_ROOT = path.resolve(__dirname, "../../..");
+
+// Runs the CLI as CI would, returning its exit status and output
+function runCli(args: string[]) {
+  const result = spawnSync(
+    process.execPath,
+    [require.resolve("ts-node/dist/bin.js"), "-T", "-P", "tsconfig.cli.json", "src/cli/index.ts", ...args],
+    { cwd: PACKAGE_ROOT, encoding: "utf-8", timeout: 60000 }
+  );
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+describe("validate", () => {
+  let dir: string;
+
+  function write(filePath: string, content: unknown) {
+    const target = path.join(dir, filePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, typeof content === "string" ? content : JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-validate-"));
+    write("schema/blog.schema.json", {
+      type: "object",
+      properties: { title: { type: "string", minLength: 1 } },
+      required: ["title"],
+    });
+    write("blog.json", { title: "Blog" });
+    write("notes.json", { anything: true });
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resolves to true when every file is valid", async () => {
+    expect(await validateContent({ contentDir: dir, format: "text" })).toBe(true);
+  });
+
+  it("writes one JUnit test case per file with the issues of failed ones", async () => {
+    write("blog.json", { title: "" });
+    write("broken.json", "{ <not json> }");
+    const output = path.join(dir, "reports", "content.xml");
+
+    expect(await validateContent({ contentDir: dir, format: "junit", output })).toBe(false);
+
+    const xml = fs.readFileSync(output, "utf-8");
+    expect(xml).toContain('<testsuite name="content" tests="3" failures="2">');
+    expect(xml).toContain('<testcase classname="content" name="notes.json"/>');
+    expect(xml).toMatch(
+      /<testcase classname="content" name="blog.json">\n\s*<failure message="1 issue\(s\)">\$\.title: [^<]+<\/failure>/
+    );
+    expect(xml).toMatch(/<testcase classname="content" name="broken.json">\n\s*<failure message="1 issue\(s\)">\$: /);
+    expect(xml).not.toContain("<not json>");
+  });
+
+  it("exits with 0 for valid content, 1 for invalid content and 2 for errors", () => {
+    expect(runCli(["validate", "--content-dir", dir]).status).toBe(0);
+
+    write("blog.json", {});
+    const invalid = runCli(["validate", "--content-dir", dir, "--format", "json"]);
+    expect(invalid.status).toBe(1);
+    expect(JSON.parse(invalid.output).summary).toEqual({ total: 2, failed: 1, withoutSchema: 1 });
+
+    expect(runCli(["validate", "--content-dir", dir, "--format", "xml"]).status).toBe(2);
+    expect(runCli(["validate", "--content-dir", path.join(dir, "missing")]).status).toBe(2);
+  }, 60000);
+});
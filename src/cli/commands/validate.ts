@@ -0,0 +1,202 @@
+import fs from "fs";
+import path from "path";
+import { ValidationError, ValidationService } from "../../services/validation";
+import { formatJsonPath } from "../../utils/jsonDiff";
+
+const SCHEMA_SUFFIX = ".schema.json";
+
+export type ValidateFormat = "text" | "json" | "junit";
+
+interface ValidateOptions {
+  contentDir: string;
+  format: ValidateFormat;
+  // Writes the report to a file instead of stdout
+  output?: string;
+}
+
+interface ValidationIssue {
+  // JSON path inside the file, e.g. `$.posts[0].title`
+  path: string;
+  message: string;
+  code: string;
+}
+
+interface FileResult {
+  // Path relative to the content directory, e.g. `blog.json`
+  file: string;
+  // Schema file relative to the content directory, if the file has one
+  schema: string | null;
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+interface ValidationReport {
+  valid: boolean;
+  files: FileResult[];
+  summary: {
+    total: number;
+    failed: number;
+    withoutSchema: number;
+  };
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join("/");
+}
+
+// Content files, skipping hidden files and folders and the schema directory
+export function findContentFiles(dir: string, schemaDir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.name.startsWith(".") || entryPath === schemaDir) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      files.push(...findContentFiles(entryPath, schemaDir));
+    } else if (entry.name.endsWith(".json")) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+async function validateFile(
+  contentDir: string,
+  schemaDir: string,
+  file: string
+): Promise<FileResult> {
+  const key = toPosix(path.relative(contentDir, file));
+  const schemaFile = path.join(schemaDir, key.slice(0, -".json".length) + SCHEMA_SUFFIX);
+  const schema = fs.existsSync(schemaFile) ? toPosix(path.relative(contentDir, schemaFile)) : null;
+  const result: FileResult = { file: key, schema, valid: true, issues: [] };
+
+  const validationService = new ValidationService();
+  try {
+    if (schema) {
+      try {
+        validationService.registerSchema(
+          key,
+          validationService.loadSchemaFromJson(fs.readFileSync(schemaFile, "utf-8"))
+        );
+      } catch (error) {
+        throw new Error(`Invalid schema ${schema}: ${(error as Error).message}`);
+      }
+    }
+    await validationService.validateJson(key, fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    result.valid = false;
+    result.issues =
+      error instanceof ValidationError
+        ? error.errors.map((issue) => ({
+            path: formatJsonPath(issue.path),
+            message: issue.message,
+            code: issue.code,
+          }))
+        : [{ path: "$", message: (error as Error).message, code: "error" }];
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatSummary(report: ValidationReport): string {
+  const { total, failed, withoutSchema } = report.summary;
+  const lines = [
+    failed > 0
+      ? `✖ ${failed} of ${total} file(s) failed validation`
+      : `✔ ${total} file(s) valid`,
+  ];
+  if (withoutSchema > 0) {
+    lines.push(`${withoutSchema} file(s) have no schema and were only checked for JSON syntax`);
+  }
+  return lines.join("\n");
+}
+
+function formatText(report: ValidationReport): string {
+  const lines: string[] = [];
+  for (const result of report.files.filter((file) => !file.valid)) {
+    lines.push(`✖ ${result.file}${result.schema ? ` (${result.schema})` : ""}`);
+    for (const issue of result.issues) {
+      lines.push(`    ${issue.path}: ${issue.message}`);
+    }
+    lines.push("");
+  }
+  lines.push(formatSummary(report));
+  return lines.join("\n");
+}
+
+// One test case per file, so CI servers list every content file
+function formatJUnit(report: ValidationReport): string {
+  const { total, failed } = report.summary;
+  const cases = report.files.map((result) => {
+    const name = escapeXml(result.file);
+    if (result.valid) {
+      return `    <testcase classname="content" name="${name}"/>`;
+    }
+    const details = result.issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+    return [
+      `    <testcase classname="content" name="${name}">`,
+      `      <failure message="${escapeXml(`${result.issues.length} issue(s)`)}">${escapeXml(details)}</failure>`,
+      "    </testcase>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="next-json-cms" tests="${total}" failures="${failed}">`,
+    `  <testsuite name="content" tests="${total}" failures="${failed}">`,
+    ...cases,
+    "  </testsuite>",
+    "</testsuites>",
+  ].join("\n");
+}
+
+/**
+ * Validates every content file against its schema. Resolves to false when
+ * any file is invalid so the CLI can exit with a non-zero status.
+ */
+export async function validateContent(options: ValidateOptions): Promise<boolean> {
+  const contentDir = path.resolve(options.contentDir);
+  const schemaDir = path.join(contentDir, "schema");
+  if (!fs.existsSync(contentDir)) {
+    throw new Error(`Content directory ${options.contentDir} not found`);
+  }
+
+  const files: FileResult[] = [];
+  for (const file of findContentFiles(contentDir, schemaDir)) {
+    files.push(await validateFile(contentDir, schemaDir, file));
+  }
+  const failed = files.filter((result) => !result.valid).length;
+  const report: ValidationReport = {
+    valid: failed === 0,
+    files,
+    summary: {
+      total: files.length,
+      failed,
+      withoutSchema: files.filter((result) => !result.schema).length,
+    },
+  };
+
+  const output =
+    options.format === "json"
+      ? JSON.stringify(report, null, 2)
+      : options.format === "junit"
+      ? formatJUnit(report)
+      : formatText(report);
+  if (options.output) {
+    await fs.promises.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+    await fs.promises.writeFile(options.output, `${output}\n`);
+    console.log(`${formatSummary(report)}\nReport written to ${options.output}`);
+  } else {
+    console.log(output);
+  }
+
+  return report.valid;
+}
@@ -1,7 +1,12 @@
 #!/usr/bin/env node
 import { Command } from "commander";
-import { initProject } from "./commands/init";
+import { PACKAGE_MANAGERS, PackageManager, initProject } from "./commands/init";
 import { startEditor } from "./commands/start";
+import { printPasswordHash } from "./commands/hash-password";
+import { generateTypes } from "./commands/generate";
+import { ValidateFormat, validateContent } from "./commands/validate";
+import { upgradeProject } from "./commands/upgrade";
+import { runDoctor } from "./commands/doctor";
 import fs from "fs";
 import path from "path";
 
@@ -9,13 +14,45 @@ interface InitOptions {
   dir: string;
   gitUsername?: string;
   gitEmail?: string;
+  force?: boolean;
+  router?: string;
+  // Undefined unless --src or --no-src is passed
+  src?: boolean;
+  yes?: boolean;
+  contentDir?: string;
+  skipInstall?: boolean;
+  packageManager?: string;
 }
 
+const ROUTERS = ["app", "pages"] as const;
+
 interface StartOptions {
   port: string;
   host: string;
 }
 
+interface UpgradeOptions {
+  dryRun?: boolean;
+  merge?: boolean;
+}
+
+interface DoctorOptions {
+  contentDir?: string;
+}
+
+interface GenerateOptions {
+  contentDir: string;
+  out?: string;
+}
+
+interface ValidateOptions {
+  contentDir: string;
+  format: string;
+  output?: string;
+}
+
+const VALIDATE_FORMATS: ValidateFormat[] = ["text", "json", "junit"];
+
 const packageJson = JSON.parse(
   fs.readFileSync(path.join(__dirname, "../../package.json"), "utf-8")
 );
@@ -31,15 +68,34 @@ program
 
 program
   .command("init [directory]")
-  .description("Initialize a new JSON CMS project")
+  .description("Create a JSON CMS project or add the CMS to an existing Next.js app")
   .option(
     "-d, --dir <directory>",
     "Target directory to create project in (alternative to first argument)"
   )
   .option("--git-username <username>", "Git username for commits")
   .option("--git-email <email>", "Git email for commits")
+  .option("-f, --force", "Overwrite existing files in an existing Next.js project")
+  .option("--router <router>", "Next.js router: app or pages")
+  .option("--src", "Put code in a src directory")
+  .option("--no-src", "Keep code in the project root")
+  .option("-y, --yes", "Use detected or default options without prompting")
+  .option("--content-dir <directory>", "Content directory", "content")
+  .option("--skip-install", "Do not install dependencies")
+  .option("--package-manager <manager>", "Package manager: npm, pnpm, yarn or bun")
   .action(async (directoryArg, options: InitOptions) => {
     try {
+      const router = options.router as (typeof ROUTERS)[number] | undefined;
+      if (router && !ROUTERS.includes(router)) {
+        throw new Error(`Unknown router "${options.router}". Use ${ROUTERS.join(" or ")}.`);
+      }
+      const packageManager = options.packageManager as PackageManager | undefined;
+      if (packageManager && !PACKAGE_MANAGERS.includes(packageManager)) {
+        throw new Error(
+          `Unknown package manager "${options.packageManager}". Use ${PACKAGE_MANAGERS.join(", ")}.`
+        );
+      }
+
       // Use the first argument as directory if provided, otherwise use --dir option,
       // or default to current directory
       const directory = directoryArg || options.dir || ".";
@@ -50,6 +106,13 @@ program
           username: options.gitUsername,
           email: options.gitEmail,
         },
+        force: options.force,
+        router,
+        useSrc: options.src,
+        yes: options.yes,
+        contentDir: options.contentDir,
+        skipInstall: options.skipInstall,
+        packageManager,
       });
     } catch (error) {
       console.error("Failed to initialize project:", (error as Error).message);
@@ -57,6 +120,35 @@ program
     }
   });
 
+program
+  .command("upgrade")
+  .description("Update the CMS files added by init to this version")
+  .option("--dry-run", "Show what would change without writing files")
+  .option("--merge", "Merge the new version into customized files, leaving conflict markers")
+  .action(async (options: UpgradeOptions) => {
+    try {
+      const clean = await upgradeProject(options);
+      process.exit(clean ? 0 : 1);
+    } catch (error) {
+      console.error("Failed to upgrade:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("doctor")
+  .description("Check the git, GitHub, schema, content and route setup of the CMS")
+  .option("--content-dir <directory>", "Content directory (default: the one init used, or content)")
+  .action(async (options: DoctorOptions) => {
+    try {
+      const healthy = await runDoctor(options);
+      process.exit(healthy ? 0 : 1);
+    } catch (error) {
+      console.error("Failed to run checks:", (error as Error).message);
+      process.exit(2);
+    }
+  });
+
 program
   .command("start")
   .description("Start the JSON CMS editor")
@@ -74,4 +166,51 @@ program
     }
   });
 
+program
+  .command("hash-password [password]")
+  .description("Hash a password for the local users file (prompts when omitted)")
+  .action(async (password?: string) => {
+    try {
+      await printPasswordHash(password);
+    } catch (error) {
+      console.error("Failed to hash password:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("validate")
+  .description("Validate all content files against their schemas")
+  .option("--content-dir <directory>", "Content directory", "content")
+  .option("-f, --format <format>", "Report format: text, json or junit", "text")
+  .option("-o, --output <file>", "Write the report to a file")
+  .action(async (options: ValidateOptions) => {
+    try {
+      const format = options.format as ValidateFormat;
+      if (!VALIDATE_FORMATS.includes(format)) {
+        throw new Error(`Unknown format "${options.format}". Use ${VALIDATE_FORMATS.join(", ")}.`);
+      }
+
+      const valid = await validateContent({ ...options, format });
+      process.exit(valid ? 0 : 1);
+    } catch (error) {
+      console.error("Failed to validate content:", (error as Error).message);
+      process.exit(2);
+    }
+  });
+
+program
+  .command("generate")
+  .description("Generate TypeScript types and a typed content loader from the schemas")
+  .option("--content-dir <directory>", "Content directory", "content")
+  .option("-o, --out <file>", "Output file (default: src/lib/content.ts or lib/content.ts)")
+  .action(async (options: GenerateOptions) => {
+    try {
+      await generateTypes(options);
+    } catch (error) {
+      console.error("Failed to generate types:", (error as Error).message);
+      process.exit(1);
+    }
+  });
+
 program.parse();
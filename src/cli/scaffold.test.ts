@@ -0,0 +1,70 @@
+import { ScaffoldOptions, getScaffoldFiles, renderTemplate } from "./scaffold";
+
+const OPTIONS: ScaffoldOptions = { router: "app", useSrc: true, alias: "@/", contentDir: "content" };
+
+describe("renderTemplate", () => {
+  it("rewrites @/ imports to the project's alias", () => {
+    const source = [
+      'import { a } from "@/utils/a";',
+      "import b from '@/utils/b';",
+      'import "@/styles/json-cms.css";',
+      'const c = await import("@/utils/c");',
+      'const path = "@/not-an-import";',
+    ].join("\n");
+
+    expect(renderTemplate(source, { alias: "~/", contentDir: "content" })).toBe(
+      [
+        'import { a } from "~/utils/a";',
+        "import b from '~/utils/b';",
+        'import "~/styles/json-cms.css";',
+        'const c = await import("~/utils/c");',
+        'const path = "@/not-an-import";',
+      ].join("\n")
+    );
+  });
+
+  it("points CONTENT_DIR at the content directory", () => {
+    expect(
+      renderTemplate('export const CONTENT_DIR = "content";\n', { alias: "@/", contentDir: "data/cms" })
+    ).toBe('export const CONTENT_DIR = "data/cms";\n');
+  });
+
+  it("uses LF line endings", () => {
+    expect(renderTemplate("a\r\nb\r\n", { alias: "@/", contentDir: "content" })).toBe("a\nb\n");
+  });
+});
+
+describe("getScaffoldFiles", () => {
+  it("renders every file with the alias and content directory", () => {
+    const files = getScaffoldFiles({ ...OPTIONS, alias: "~/", contentDir: "data" });
+
+    expect(files.filter((file) => /from\s+["']@\//.test(file.content))).toEqual([]);
+    expect(files.find((file) => file.path === "src/utils/contentPath.ts")!.content).toContain(
+      'export const CONTENT_DIR = "data";'
+    );
+    expect(files.filter((file) => file.role === "sample").map((file) => file.path).sort()).toEqual([
+      "data/example.json",
+      "data/schema/example.schema.json",
+    ]);
+  });
+
+  it("places code under src/ only when the project uses it", () => {
+    const withSrc = getScaffoldFiles(OPTIONS).map((file) => file.path);
+    const withoutSrc = getScaffoldFiles({ ...OPTIONS, useSrc: false }).map((file) => file.path);
+
+    expect(withSrc).toContain("src/pages/editor/index.tsx");
+    expect(withoutSrc).toContain("pages/editor/index.tsx");
+    expect(withoutSrc.filter((filePath) => filePath.startsWith("src/"))).toEqual([]);
+  });
+
+  it("adds the files of the chosen router and no tests", () => {
+    const app = getScaffoldFiles(OPTIONS).map((file) => file.path);
+    const pages = getScaffoldFiles({ ...OPTIONS, router: "pages" }).map((file) => file.path);
+
+    expect(app).toEqual(expect.arrayContaining(["src/app/page.tsx", "src/styles/json-cms.css"]));
+    expect(app).not.toContain("src/pages/index.tsx");
+    expect(pages).toEqual(expect.arrayContaining(["src/pages/index.tsx", "src/pages/_app.tsx"]));
+    expect(pages).not.toContain("src/app/page.tsx");
+    expect([...app, ...pages].filter((filePath) => filePath.includes(".test."))).toEqual([]);
+  });
+});
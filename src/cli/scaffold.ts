@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Files that `init` adds to a project. The CMS itself is copied from this
+// package's own sources, so projects get the editor and API routes that
+// ship here; the sample site lives in `templates/`. Both are real files
+// that are type-checked with the package (`templates/tsconfig.json`).
+
+export type Router = "app" | "pages";
+
+export interface ScaffoldFile {
+  // Path relative to the project root
+  path: string;
+  content: string;
+  role: "cms" | "site" | "sample";
+}
+
+// Variables the templates are rendered with
+export interface ScaffoldOptions {
+  router: Router;
+  useSrc: boolean;
+  // Import prefix mapped to the code directory, e.g. `@/`
+  alias: string;
+  // Content directory relative to the project root
+  contentDir: string;
+}
+
+interface TemplateSource {
+  // Path relative to the package root
+  from: string;
+  // Path relative to the content directory for samples, otherwise relative
+  // to the code directory (`src/` or the project root)
+  to: string;
+  role: ScaffoldFile["role"];
+  // Only added for this router
+  router?: Router;
+}
+
+// The package root, from both src/cli and dist/cli
+const PACKAGE_ROOT = path.resolve(__dirname, "../..");
+
+// Directories and files under src/ that make up the CMS. The editor and its
+// API routes use the Pages Router, which Next.js also serves next to `app/`.
+const CMS_SOURCES = [
+  "components/editor",
+  "hooks",
+  "pages/api",
+  "pages/editor",
+  "pages/login.tsx",
+  "services",
+  "store",
+  "utils",
+];
+
+const TEMPLATES: TemplateSource[] = [
+  { from: "templates/content/example.json", to: "example.json", role: "sample" },
+  { from: "templates/content/schema/example.schema.json", to: "schema/example.schema.json", role: "sample" },
+  { from: "templates/site/components/home/ContentDisplay.tsx", to: "components/home/ContentDisplay.tsx", role: "site" },
+  { from: "templates/app/app/page.tsx", to: "app/page.tsx", role: "site", router: "app" },
+  { from: "templates/app/app/layout.tsx", to: "app/layout.tsx", role: "site", router: "app" },
+  { from: "templates/app/app/globals.css", to: "app/globals.css", role: "site", router: "app" },
+  { from: "templates/app/pages/_app.tsx", to: "pages/_app.tsx", role: "cms", router: "app" },
+  { from: "templates/app/styles/json-cms.css", to: "styles/json-cms.css", role: "cms", router: "app" },
+  { from: "templates/pages/pages/index.tsx", to: "pages/index.tsx", role: "site", router: "pages" },
+  { from: "src/pages/_app.tsx", to: "pages/_app.tsx", role: "site", router: "pages" },
+  { from: "templates/pages/styles/globals.css", to: "styles/globals.css", role: "site", router: "pages" },
+];
+
+// Packages imported by the CMS sources, added with this package's versions
+const CMS_DEPENDENCIES = ["@monaco-editor/react", "classnames", "isomorphic-git", "lodash", "zod", "zustand"];
+const CMS_DEV_DEPENDENCIES = ["@types/lodash"];
+
+// Source files, without the package's own tests
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listFiles(entryPath);
+    }
+    return /\.test\.tsx?$/.test(entry.name) ? [] : [entryPath];
+  });
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join("/");
+}
+
+/**
+ * Renders a template for the project: rewrites `@/` imports to the
+ * project's alias, points `CONTENT_DIR` at the content directory and uses
+ * LF line endings.
+ */
+export function renderTemplate(content: string, options: Pick<ScaffoldOptions, "alias" | "contentDir">): string {
+  let output = content.replace(/\r\n/g, "\n");
+  if (options.alias !== "@/") {
+    output = output.replace(/(from\s+|import\s*\(?)(["'])@\//g, `$1$2${options.alias}`);
+  }
+  if (options.contentDir !== "content") {
+    output = output.replace(/(CONTENT_DIR = )"content"/, `$1${JSON.stringify(options.contentDir)}`);
+  }
+  return output;
+}
+
+/**
+ * Files added to the project. "site" files (home page, layout, global
+ * styles) are only written into new projects, and "sample" content never
+ * replaces existing files.
+ */
+export function getScaffoldFiles(options: ScaffoldOptions): ScaffoldFile[] {
+  const base = options.useSrc ? "src/" : "";
+  const sourceDir = path.join(PACKAGE_ROOT, "src");
+
+  const sources: TemplateSource[] = CMS_SOURCES.flatMap((source) => {
+    const sourcePath = path.join(sourceDir, source);
+    const files = fs.statSync(sourcePath).isDirectory() ? listFiles(sourcePath) : [sourcePath];
+    return files.map((file) => {
+      const relative = toPosix(path.relative(sourceDir, file));
+      return { from: `src/${relative}`, to: relative, role: "cms" as const };
+    });
+  });
+  sources.push(...TEMPLATES.filter((template) => !template.router || template.router === options.router));
+
+  return sources.map((source) => ({
+    path:
+      source.role === "sample"
+        ? path.posix.join(options.contentDir, source.to)
+        : `${base}${source.to}`,
+    content: renderTemplate(fs.readFileSync(path.join(PACKAGE_ROOT, source.from), "utf-8"), options),
+    role: source.role,
+  }));
+}
+
+function readPackageJson(): any {
+  return JSON.parse(fs.readFileSync(path.join(PACKAGE_ROOT, "package.json"), "utf-8"));
+}
+
+export function getPackageVersion(): string {
+  return readPackageJson().version;
+}
+
+/**
+ * Adds CMS dependencies missing from the project's package.json, with this
+ * package's versions. Versions the project already uses are kept. Returns
+ * the added `name@version` entries; `dryRun` only reports them.
+ */
+export function addMissingDependencies(dir: string, dryRun = false): string[] {
+  const packagePath = path.join(dir, "package.json");
+  const packageJson = JSON.parse(fs.readFileSync(packagePath, "utf-8"));
+  const installed = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  const { dependencies = {}, devDependencies = {} } = readPackageJson();
+  const versions: Record<string, string> = { ...devDependencies, ...dependencies };
+  const added: string[] = [];
+
+  for (const [field, names] of [
+    ["dependencies", CMS_DEPENDENCIES],
+    ["devDependencies", CMS_DEV_DEPENDENCIES],
+  ] as const) {
+    const missing = names
+      .filter((name) => !installed[name])
+      .map((name) => [name, versions[name] || "latest"] as const);
+    if (missing.length === 0) continue;
+    packageJson[field] = { ...packageJson[field], ...Object.fromEntries(missing) };
+    added.push(...missing.map(([name, version]) => `${name}@${version}`));
+  }
+  if (added.length > 0 && !dryRun) {
+    fs.writeFileSync(packagePath, JSON.stringify(packageJson, null, 2) + "\n");
+  }
+  return added;
+}
+
+// Records the CMS files as written, relative to the project root
+export const MANIFEST_FILE = ".json-cms/scaffold.json";
+
+export interface ManifestEntry {
+  // SHA-256 of the content, to tell untouched files from customized ones
+  hash: string;
+  // The content as written, the base for three-way merges on upgrade
+  content: string;
+  // Package version of that content; manifests written before this was
+  // recorded use the manifest version
+  version?: string;
+}
+
+export interface ScaffoldManifest {
+  // Package version that wrote the files
+  version: string;
+  options: ScaffoldOptions;
+  files: Record<string, ManifestEntry>;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+// Only "cms" files are recorded: the site and sample content belong to the
+// project once written
+export function createManifest(options: ScaffoldOptions, files: ScaffoldFile[]): ScaffoldManifest {
+  const version = getPackageVersion();
+  const entries = files
+    .filter((file) => file.role === "cms")
+    .map((file) => [file.path, createManifestEntry(file.content, version)] as const);
+  return { version, options, files: Object.fromEntries(entries) };
+}
+
+export function createManifestEntry(content: string, version: string): ManifestEntry {
+  return { hash: hashContent(content), content, version };
+}
+
+export function readManifest(dir: string): ScaffoldManifest | null {
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid ${MANIFEST_FILE}: ${(error as Error).message}`);
+  }
+}
+
+export function writeManifest(dir: string, manifest: ScaffoldManifest): void {
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+}
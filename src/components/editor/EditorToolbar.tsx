@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useEditorStore } from "@/store/editorStore";
 import classNames from "classnames";
 
@@ -40,23 +40,102 @@ function ToolbarButton({
   );
 }
 
+const NEW_BRANCH = "__new__";
+const DEFAULT_BRANCH = "__default__";
+
+function BranchSelector() {
+  const { branchState, hasChanges, isLoading, switchBranch, createBranch, can } = useEditorStore();
+  if (!branchState) return null;
+
+  const { branch, branches, publishBranch, workflow } = branchState;
+  const names = branches.map((info) => info.name);
+  if (!names.includes(branch)) {
+    names.unshift(branch);
+  }
+  const isProtected = workflow === "editorial" && branch === publishBranch;
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    if (hasChanges && !window.confirm("Switch branches and discard your unsaved changes?")) {
+      return;
+    }
+
+    if (value === NEW_BRANCH) {
+      const name = window.prompt(`Name of the new branch (created from ${branch}):`);
+      if (name) {
+        createBranch(name.trim());
+      }
+    } else {
+      switchBranch(value === DEFAULT_BRANCH ? null : value);
+    }
+  };
+
+  return (
+    <label className="flex items-center space-x-2 text-sm text-gray-600">
+      <span>Branch</span>
+      <select
+        className="px-2 py-1 border rounded-md"
+        value={branch}
+        disabled={isLoading}
+        onChange={handleChange}
+      >
+        {workflow === "editorial" && <option value={DEFAULT_BRANCH}>My draft branch</option>}
+        {names.map((name) => (
+          <option key={name} value={name}>
+            {name === publishBranch ? `${name} (published)` : name}
+          </option>
+        ))}
+        {can("editor") && <option value={NEW_BRANCH}>New branch…</option>}
+      </select>
+      {isProtected && (
+        <span title="Changes reach this branch through change requests">🔒</span>
+      )}
+    </label>
+  );
+}
+
 export function EditorToolbar() {
   const {
     currentFile,
     hasChanges,
+    readOnly,
+    status,
     isLoading,
     error,
     saveChanges,
     commitAndPush,
     discardChanges,
     pullChanges,
+    sidePanel,
+    setSidePanel,
+    session,
+    loadSession,
+    branchState,
+    loadBranchState,
+    logout,
+    can,
   } = useEditorStore();
 
   const [gitMessage, setGitMessage] = useState<string | null>(null);
 
+  useEffect(() => {
+    loadSession();
+    loadBranchState();
+  }, [loadSession, loadBranchState]);
+
   const handleCommitAndPush = async () => {
+    const savedFiles = status.map(([filepath]) => filepath);
+    const files = hasChanges && currentFile && !savedFiles.includes(currentFile)
+      ? [...savedFiles, currentFile]
+      : savedFiles;
+    const message = window.prompt(
+      `Commit message for ${files.length} file(s):`,
+      `Update ${files.join(", ")}`
+    );
+    if (!message) return;
+
     setGitMessage("Committing and pushing changes...");
-    await commitAndPush();
+    await commitAndPush(message);
     setGitMessage("Changes pushed successfully");
     setTimeout(() => setGitMessage(null), 3000);
   };
@@ -80,7 +159,7 @@ export function EditorToolbar() {
       <div className="flex items-center space-x-4">
         <ToolbarButton
           onClick={() => saveChanges()}
-          disabled={!currentFile || !hasChanges}
+          disabled={!currentFile || !hasChanges || readOnly}
           isLoading={isLoading}
           variant="primary"
         >
@@ -94,6 +173,8 @@ export function EditorToolbar() {
         >
           Discard
         </ToolbarButton>
+
+        <BranchSelector />
       </div>
 
       <div className="flex items-center space-x-4">
@@ -109,9 +190,26 @@ export function EditorToolbar() {
           </span>
         )}
 
+        <ToolbarButton
+          onClick={() => setSidePanel(sidePanel === "history" ? null : "history")}
+          disabled={!currentFile}
+          variant="secondary"
+        >
+          History
+        </ToolbarButton>
+
+        {branchState?.workflow === "editorial" && (
+          <ToolbarButton
+            onClick={() => setSidePanel(sidePanel === "review" ? null : "review")}
+            variant="secondary"
+          >
+            Review
+          </ToolbarButton>
+        )}
+
         <ToolbarButton
           onClick={handlePull}
-          disabled={isLoading}
+          disabled={isLoading || !can("editor")}
           variant="secondary"
         >
           Pull Changes
@@ -119,16 +217,28 @@ export function EditorToolbar() {
 
         <ToolbarButton
           onClick={handleCommitAndPush}
-          disabled={isLoading || !hasChanges}
+          disabled={isLoading || (!hasChanges && status.length === 0) || !can("publisher")}
           variant="success"
         >
-          Commit & Push
+          Commit & Push{status.length > 0 ? ` (${status.length})` : ""}
         </ToolbarButton>
+
+        {session?.user && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <span title={session.user.email}>
+              {session.user.name} <span className="text-gray-400">({session.user.role})</span>
+            </span>
+            <button className="text-blue-500 hover:text-blue-700" onClick={() => logout()}>
+              Sign out
+            </button>
+          </div>
+        )}
       </div>
 
       {currentFile && (
         <div className="ml-4 text-sm text-gray-500">
           Current file: {currentFile}
+          {readOnly && <span className="ml-2" title="You cannot save this file">🔒 Read-only</span>}
         </div>
       )}
     </div>
@@ -1,11 +1,13 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useEditorStore } from "@/store/editorStore";
+import { NewFileDialog } from "@/components/editor/NewFileDialog";
 
 interface FileNode {
   name: string;
   path: string;
   type: "file" | "directory";
   children?: FileNode[];
+  readOnly?: boolean;
   status?: {
     isModified: boolean;
     isNew: boolean;
@@ -18,16 +20,109 @@ interface FileTreeNodeProps {
   level: number;
   onSelect: (path: string) => void;
   selectedPath: string | null;
+  hasUnsavedChanges: boolean;
+  onContextMenu: (event: React.MouseEvent, node: FileNode) => void;
 }
 
-function FileTreeNode({ node, level, onSelect, selectedPath }: FileTreeNodeProps) {
+interface ContextMenuState {
+  x: number;
+  y: number;
+  // null when the menu was opened on the tree background (content root)
+  node: FileNode | null;
+}
+
+function parentPath(filePath: string): string {
+  return filePath.includes("/") ? filePath.slice(0, filePath.lastIndexOf("/")) : "";
+}
+
+// Adds a file that is missing from the listing (deleted but not committed)
+// with its parent directories, keeping directories first, then by name
+function insertFileNode(nodes: FileNode[], file: FileNode): FileNode[] {
+  const segments = file.path.split("/");
+  let level = nodes;
+  segments.forEach((segment, index) => {
+    const nodePath = segments.slice(0, index + 1).join("/");
+    let node = level.find((candidate) => candidate.path === nodePath);
+    if (!node) {
+      node =
+        index === segments.length - 1
+          ? file
+          : { name: segment, path: nodePath, type: "directory", children: [] };
+      level.push(node);
+      level.sort((a, b) =>
+        a.type === b.type ? a.name.localeCompare(b.name) : a.type === "directory" ? -1 : 1
+      );
+    }
+    level = node.children || [];
+  });
+  return nodes;
+}
+
+function ContextMenu({
+  menu,
+  onNewFile,
+  onNewFolder,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  menu: ContextMenuState;
+  onNewFile: (directory: string) => void;
+  onNewFolder: (directory: string) => void;
+  onRename: (node: FileNode) => void;
+  onDuplicate: (node: FileNode) => void;
+  onDelete: (node: FileNode) => void;
+}) {
+  const { node } = menu;
+  const directory = !node ? "" : node.type === "directory" ? node.path : parentPath(node.path);
+  const items: Array<[string, () => void]> = [
+    ["New file", () => onNewFile(directory)],
+    ["New folder", () => onNewFolder(directory)],
+  ];
+  if (node) {
+    items.push(["Rename / move", () => onRename(node)]);
+    if (node.type === "file") {
+      items.push(["Duplicate", () => onDuplicate(node)]);
+    }
+    items.push(["Delete", () => onDelete(node)]);
+  }
+
+  return (
+    <ul
+      className="fixed z-40 py-1 text-sm bg-white border rounded-md shadow-lg"
+      style={{ top: menu.y, left: menu.x }}
+    >
+      {items.map(([label, action]) => (
+        <li
+          key={label}
+          className={`px-4 py-1 cursor-pointer hover:bg-gray-100 ${
+            label === "Delete" ? "text-red-600" : ""
+          }`}
+          onClick={action}
+        >
+          {label}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function FileTreeNode({
+  node,
+  level,
+  onSelect,
+  selectedPath,
+  hasUnsavedChanges,
+  onContextMenu,
+}: FileTreeNodeProps) {
   const [isOpen, setIsOpen] = useState(true);
   const isSelected = selectedPath === node.path;
+  const isUnsaved = isSelected && hasUnsavedChanges;
 
   const handleClick = () => {
     if (node.type === "directory") {
       setIsOpen(!isOpen);
-    } else {
+    } else if (!node.status?.isDeleted) {
       onSelect(node.path);
     }
   };
@@ -50,6 +145,7 @@ function FileTreeNode({ node, level, onSelect, selectedPath }: FileTreeNodeProps
         }`}
         style={{ paddingLeft: `${level * 1.5}rem` }}
         onClick={handleClick}
+        onContextMenu={(event) => onContextMenu(event, node)}
       >
         <span className="mr-2">
           {node.type === "directory" ? (
@@ -65,6 +161,12 @@ function FileTreeNode({ node, level, onSelect, selectedPath }: FileTreeNodeProps
           )}
         </span>
         <span className={statusColor}>{node.name}</span>
+        {node.readOnly && (
+          <span className="ml-2 text-xs" title="Read-only">🔒</span>
+        )}
+        {isUnsaved && (
+          <span className="ml-2 text-xs text-blue-500">Unsaved</span>
+        )}
         {node.status?.isModified && (
           <span className="ml-2 text-xs text-yellow-500">Modified</span>
         )}
@@ -84,6 +186,8 @@ function FileTreeNode({ node, level, onSelect, selectedPath }: FileTreeNodeProps
             level={level + 1}
             onSelect={onSelect}
             selectedPath={selectedPath}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onContextMenu={onContextMenu}
           />
         ))}
     </div>
@@ -91,52 +195,89 @@ function FileTreeNode({ node, level, onSelect, selectedPath }: FileTreeNodeProps
 }
 
 export function FileTree() {
-  const { currentFile, loadFile, gitService } = useEditorStore();
-  const [files, setFiles] = useState<FileNode[]>([]);
+  const {
+    currentFile,
+    hasChanges,
+    loadFile,
+    status,
+    refreshStatus,
+    createFolder,
+    renamePath,
+    duplicateFile,
+    deletePath,
+    branchState,
+  } = useEditorStore();
+  // File operations are committed right away, so they need the right to
+  // commit to the branch (publishers, or editors on their draft branch)
+  const canManageFiles = branchState?.canCommit ?? true;
+  const [fileTree, setFileTree] = useState<FileNode[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [menu, setMenu] = useState<ContextMenuState | null>(null);
+  const [newFileDirectory, setNewFileDirectory] = useState<string | null>(null);
 
+  // Any click closes the context menu (after its item handles the click)
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    document.addEventListener("click", close);
+    return () => document.removeEventListener("click", close);
+  }, [menu]);
+
+  const openMenu = (event: React.MouseEvent, node: FileNode | null) => {
+    if (!canManageFiles) return;
+    event.preventDefault();
+    event.stopPropagation();
+    // A deleted file only exists in the last commit, so it has no actions
+    if (node?.status?.isDeleted) return;
+    setMenu({ x: event.clientX, y: event.clientY, node });
+  };
+
+  const handleNewFolder = (directory: string) => {
+    const name = window.prompt("Folder name:");
+    if (name) {
+      createFolder(directory ? `${directory}/${name}` : name);
+    }
+  };
+
+  const handleRename = (node: FileNode) => {
+    const target = window.prompt(`Rename or move ${node.path} to:`, node.path);
+    if (target && target !== node.path) {
+      renamePath(node.path, target);
+    }
+  };
+
+  const handleDuplicate = (node: FileNode) => {
+    const target = window.prompt(
+      `Duplicate ${node.path} as:`,
+      node.path.replace(/\.json$/, "-copy.json")
+    );
+    if (target) {
+      duplicateFile(node.path, target);
+    }
+  };
+
+  const handleDelete = (node: FileNode) => {
+    const what = node.type === "directory" ? `the folder ${node.path} and everything in it` : node.path;
+    if (window.confirm(`Delete ${what}? This creates a new commit.`)) {
+      deletePath(node.path);
+    }
+  };
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  // Reload the tree whenever the status changes, since saves and commits
+  // can add files; only the first load shows the loading state
   useEffect(() => {
     async function loadFiles() {
       try {
-        setIsLoading(true);
         setError(null);
 
-        // Get file tree
         const response = await fetch("/api/files");
         if (!response.ok) throw new Error("Failed to load files");
-        const fileTree = await response.json();
-
-        // Get git status
-        const status = await gitService.getStatus();
-        const statusMap = new Map(
-          status.map(([filepath, head, workdir, stage]) => [
-            filepath,
-            {
-              isNew: head === 0,
-              isModified: workdir === 2,
-              isDeleted: workdir === 0 && head === 1,
-            },
-          ])
-        );
-
-        // Merge git status into file tree
-        function addGitStatus(node: FileNode): FileNode {
-          const newNode = { ...node };
-          if (node.type === "file") {
-            newNode.status = statusMap.get(node.path) || {
-              isModified: false,
-              isNew: false,
-              isDeleted: false,
-            };
-          }
-          if (node.children) {
-            newNode.children = node.children.map(addGitStatus);
-          }
-          return newNode;
-        }
-
-        setFiles(fileTree.map(addGitStatus));
+        setFileTree(await response.json());
       } catch (err) {
         setError((err as Error).message);
       } finally {
@@ -145,7 +286,51 @@ export function FileTree() {
     }
 
     loadFiles();
-  }, [gitService]);
+  }, [status]);
+
+  const files = useMemo(() => {
+    const statusMap = new Map(
+      status.map(([filepath, head, workdir]) => [
+        filepath,
+        {
+          isNew: head === 0 && workdir !== 0,
+          isModified: head === 1 && workdir === 2,
+          isDeleted: head === 1 && workdir === 0,
+        },
+      ])
+    );
+
+    // Merge git status into file tree
+    function addGitStatus(node: FileNode): FileNode {
+      const newNode = { ...node };
+      if (node.type === "file") {
+        newNode.status = statusMap.get(node.path) || {
+          isModified: false,
+          isNew: false,
+          isDeleted: false,
+        };
+      }
+      if (node.children) {
+        newNode.children = node.children.map(addGitStatus);
+      }
+      return newNode;
+    }
+
+    // Deleted files are not listed, so they are added to show their badge
+    // until the deletion is committed
+    return status
+      .filter(([filepath]) => statusMap.get(filepath)!.isDeleted)
+      .reduce(
+        (tree, [filepath]) =>
+          insertFileNode(tree, {
+            name: filepath.split("/").pop()!,
+            path: filepath,
+            type: "file",
+            status: statusMap.get(filepath),
+          }),
+        fileTree.map(addGitStatus)
+      );
+  }, [fileTree, status]);
 
   if (isLoading) {
     return (
@@ -165,10 +350,26 @@ export function FileTree() {
 
   return (
     <div className="h-full overflow-auto">
-      <div className="p-4 border-b">
+      <div className="flex items-center justify-between p-4 border-b">
         <h2 className="font-semibold">Files</h2>
+        <div className={`space-x-2 text-sm ${canManageFiles ? "" : "hidden"}`}>
+          <button
+            className="text-blue-500 hover:text-blue-700"
+            title="New file"
+            onClick={() => setNewFileDirectory("")}
+          >
+            + File
+          </button>
+          <button
+            className="text-blue-500 hover:text-blue-700"
+            title="New folder"
+            onClick={() => handleNewFolder("")}
+          >
+            + Folder
+          </button>
+        </div>
       </div>
-      <div className="py-2">
+      <div className="min-h-full py-2" onContextMenu={(event) => openMenu(event, null)}>
         {files.map((file) => (
           <FileTreeNode
             key={file.path}
@@ -176,9 +377,28 @@ export function FileTree() {
             level={0}
             onSelect={loadFile}
             selectedPath={currentFile}
+            hasUnsavedChanges={hasChanges}
+            onContextMenu={openMenu}
           />
         ))}
       </div>
+
+      {menu && (
+        <ContextMenu
+          menu={menu}
+          onNewFile={setNewFileDirectory}
+          onNewFolder={handleNewFolder}
+          onRename={handleRename}
+          onDuplicate={handleDuplicate}
+          onDelete={handleDelete}
+        />
+      )}
+      {newFileDirectory !== null && (
+        <NewFileDialog
+          directory={newFileDirectory}
+          onClose={() => setNewFileDirectory(null)}
+        />
+      )}
     </div>
   );
 }
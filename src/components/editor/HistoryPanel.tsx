@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import classNames from "classnames";
+import { useEditorStore } from "@/store/editorStore";
+import { GitCommit } from "@/services/git";
+import { JsonDiffEntry, diffJson } from "@/utils/jsonDiff";
+
+type CompareTarget = "current" | "parent";
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value, null, 2) ?? "undefined";
+}
+
+function DiffEntry({ entry }: { entry: JsonDiffEntry }) {
+  const colors = {
+    added: "border-green-400 bg-green-50",
+    removed: "border-red-400 bg-red-50",
+    changed: "border-yellow-400 bg-yellow-50",
+  };
+
+  return (
+    <li className={classNames("p-2 border-l-4 text-xs", colors[entry.type])}>
+      <div className="flex justify-between mb-1">
+        <code className="font-semibold break-all">{entry.path}</code>
+        <span className="ml-2 uppercase text-gray-500">{entry.type}</span>
+      </div>
+      {entry.type !== "added" && (
+        <pre className="whitespace-pre-wrap text-red-700">- {formatValue(entry.before)}</pre>
+      )}
+      {entry.type !== "removed" && (
+        <pre className="whitespace-pre-wrap text-green-700">+ {formatValue(entry.after)}</pre>
+      )}
+    </li>
+  );
+}
+
+export function HistoryPanel() {
+  const {
+    currentFile,
+    content,
+    isLoading: isRestoring,
+    gitService,
+    setSidePanel,
+    restoreFile,
+  } = useEditorStore();
+  const [history, setHistory] = useState<GitCommit[]>([]);
+  const [selected, setSelected] = useState<GitCommit | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>("current");
+  const [diff, setDiff] = useState<JsonDiffEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const handleRestore = async (commit: GitCommit) => {
+    if (!window.confirm(
+      `Restore ${currentFile} to ${commit.oid.slice(0, 7)}? This creates a new commit.`
+    )) {
+      return;
+    }
+    await restoreFile(commit.oid);
+    setReloadCount((count) => count + 1);
+  };
+
+  useEffect(() => {
+    if (!currentFile) return;
+
+    setSelected(null);
+    setDiff(null);
+    setError(null);
+    setIsLoading(true);
+    gitService
+      .getHistory(currentFile)
+      .then(setHistory)
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setIsLoading(false));
+  }, [currentFile, gitService, reloadCount]);
+
+  useEffect(() => {
+    if (!currentFile || !selected) return;
+
+    async function loadDiff(commit: GitCommit) {
+      try {
+        setError(null);
+        const revision = JSON.parse(await gitService.readFile(currentFile!, commit.oid));
+        const parentOid = commit.commit.parent[0];
+
+        if (compareTo === "parent") {
+          // The file may not exist in the parent commit (first revision)
+          const parent = parentOid
+            ? await gitService
+                .readFile(currentFile!, parentOid)
+                .then((text) => JSON.parse(text))
+                .catch(() => undefined)
+            : undefined;
+          setDiff(diffJson(parent, revision));
+        } else {
+          setDiff(diffJson(revision, JSON.parse(content)));
+        }
+      } catch (err) {
+        setDiff(null);
+        setError((err as Error).message);
+      }
+    }
+
+    loadDiff(selected);
+  }, [currentFile, selected, compareTo, content, gitService]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="font-semibold">History</h2>
+        <button
+          className="text-gray-500 hover:text-gray-700"
+          onClick={() => setSidePanel(null)}
+        >
+          ✕
+        </button>
+      </div>
+
+      {!currentFile ? (
+        <p className="p-4 text-sm text-gray-500">Select a file to see its history.</p>
+      ) : isLoading ? (
+        <p className="p-4 text-sm text-gray-500">Loading history...</p>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          {history.length === 0 && !error && (
+            <p className="p-4 text-sm text-gray-500">No commits for this file yet.</p>
+          )}
+          <ul className="divide-y">
+            {history.map((entry) => (
+              <li
+                key={entry.oid}
+                className={classNames(
+                  "p-3 cursor-pointer hover:bg-gray-50",
+                  selected?.oid === entry.oid && "bg-blue-50"
+                )}
+                onClick={() => setSelected(entry)}
+              >
+                <div className="text-sm font-medium truncate">
+                  {entry.commit.message.split("\n")[0]}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {entry.commit.author.name} ·{" "}
+                  {new Date(entry.commit.author.timestamp * 1000).toLocaleString()} ·{" "}
+                  <code>{entry.oid.slice(0, 7)}</code>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="p-3 border-t">
+              <button
+                className="w-full mb-3 px-3 py-2 text-sm text-white bg-blue-500 rounded-md hover:bg-blue-600 disabled:bg-gray-200 disabled:text-gray-500"
+                onClick={() => handleRestore(selected)}
+                disabled={isRestoring || selected.oid === history[0]?.oid}
+              >
+                Restore this version
+              </button>
+              <div className="flex mb-3 text-xs space-x-2">
+                {(["current", "parent"] as const).map((target) => (
+                  <button
+                    key={target}
+                    className={classNames(
+                      "px-2 py-1 rounded-md",
+                      compareTo === target
+                        ? "bg-blue-500 text-white"
+                        : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    )}
+                    onClick={() => setCompareTo(target)}
+                  >
+                    {target === "current" ? "Compare with current" : "Compare with parent"}
+                  </button>
+                ))}
+              </div>
+              {diff && diff.length === 0 && (
+                <p className="text-sm text-gray-500">No differences.</p>
+              )}
+              {diff && diff.length > 0 && (
+                <ul className="space-y-2">
+                  {diff.map((entry) => (
+                    <DiffEntry key={`${entry.type}:${entry.path}`} entry={entry} />
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm text-red-700 bg-red-100">{error}</div>
+      )}
+    </div>
+  );
+}
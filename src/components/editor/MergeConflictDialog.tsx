@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from "react";
+import classNames from "classnames";
+import { useEditorStore } from "@/store/editorStore";
+import { ConflictChoice, JsonConflict } from "@/utils/jsonMerge";
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(removed)" : JSON.stringify(value, null, 2);
+}
+
+function ConflictSide({
+  label,
+  value,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  value: unknown;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      className={classNames(
+        "flex-1 p-2 text-left border-2 rounded-md",
+        selected ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:border-gray-300"
+      )}
+      onClick={onSelect}
+    >
+      <div className="mb-1 text-xs font-semibold uppercase text-gray-500">{label}</div>
+      <pre className="text-xs whitespace-pre-wrap break-all">{formatValue(value)}</pre>
+    </button>
+  );
+}
+
+function ConflictRow({
+  conflict,
+  choice,
+  onChoose,
+}: {
+  conflict: JsonConflict;
+  choice: ConflictChoice;
+  onChoose: (choice: ConflictChoice) => void;
+}) {
+  return (
+    <li className="py-3">
+      <div className="flex justify-between mb-2 text-sm">
+        <code className="font-semibold break-all">{conflict.path}</code>
+        <span className="ml-2 text-xs text-gray-500">
+          Original: <code>{formatValue(conflict.base)}</code>
+        </span>
+      </div>
+      <div className="flex space-x-2">
+        <ConflictSide
+          label="Yours"
+          value={conflict.local}
+          selected={choice === "local"}
+          onSelect={() => onChoose("local")}
+        />
+        <ConflictSide
+          label="Theirs"
+          value={conflict.remote}
+          selected={choice === "remote"}
+          onSelect={() => onChoose("remote")}
+        />
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Shown after a pull when remote changes could not be merged automatically.
+ * Conflicts are resolved one file at a time by picking a side per JSON path.
+ */
+export function MergeConflictDialog() {
+  const { mergeConflicts, isLoading, resolveMergeConflict } = useEditorStore();
+  const conflict = mergeConflicts[0];
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const choiceFor = (path: string): ConflictChoice => choices[path] || "local";
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(
+      Object.fromEntries(conflict.result.conflicts.map((entry) => [entry.path, choice]))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="flex flex-col w-full max-w-4xl max-h-[90vh] bg-white rounded-lg shadow-xl">
+        <div className="p-4 border-b">
+          <h2 className="font-semibold">Merge conflict in {conflict.filePath}</h2>
+          <p className="text-sm text-gray-500">
+            {conflict.source === "editor"
+              ? "Your unsaved edits and the pulled changes touch the same fields."
+              : "Your saved changes and the pulled changes touch the same fields."}{" "}
+            Choose which version to keep for each field.
+            {mergeConflicts.length > 1 && ` ${mergeConflicts.length - 1} more file(s) to resolve.`}
+          </p>
+        </div>
+
+        <ul className="flex-1 px-4 overflow-auto divide-y">
+          {conflict.result.conflicts.map((entry) => (
+            <ConflictRow
+              key={entry.path}
+              conflict={entry}
+              choice={choiceFor(entry.path)}
+              onChoose={(choice) => setChoices({ ...choices, [entry.path]: choice })}
+            />
+          ))}
+        </ul>
+
+        <div className="flex justify-between p-4 border-t">
+          <div className="space-x-2">
+            <button
+              className="px-3 py-2 text-sm bg-gray-100 rounded-md hover:bg-gray-200"
+              onClick={() => chooseAll("local")}
+            >
+              Keep all mine
+            </button>
+            <button
+              className="px-3 py-2 text-sm bg-gray-100 rounded-md hover:bg-gray-200"
+              onClick={() => chooseAll("remote")}
+            >
+              Take all theirs
+            </button>
+          </div>
+          <button
+            className="px-4 py-2 text-sm text-white bg-blue-500 rounded-md hover:bg-blue-600 disabled:bg-gray-300"
+            onClick={() => resolveMergeConflict(choices)}
+            disabled={isLoading}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
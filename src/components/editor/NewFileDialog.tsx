@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from "react";
+import { useEditorStore } from "@/store/editorStore";
+
+interface NewFileDialogProps {
+  // Folder the file is created in; empty for the content root
+  directory: string;
+  onClose: () => void;
+}
+
+export function NewFileDialog({ directory, onClose }: NewFileDialogProps) {
+  const { gitService, isLoading, createFile } = useEditorStore();
+  const [name, setName] = useState("");
+  const [template, setTemplate] = useState("");
+  const [templates, setTemplates] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Templates are optional, so a failure only leaves the list empty
+    gitService.listTemplates().then(setTemplates).catch(() => setTemplates([]));
+  }, [gitService]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const fileName = name.trim().endsWith(".json") ? name.trim() : `${name.trim()}.json`;
+    await createFile(directory ? `${directory}/${fileName}` : fileName, template || undefined);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+      <form className="w-full max-w-md p-4 bg-white rounded-lg shadow-xl" onSubmit={handleSubmit}>
+        <h2 className="mb-3 font-semibold">
+          New file{directory && <span className="font-normal text-gray-500"> in {directory}</span>}
+        </h2>
+        <label className="block mb-3 text-sm">
+          <span className="text-gray-700">Name</span>
+          <input
+            className="w-full px-2 py-1 mt-1 border rounded-md"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="posts.json"
+            autoFocus
+          />
+        </label>
+        <label className="block mb-4 text-sm">
+          <span className="text-gray-700">Template</span>
+          <select
+            className="w-full px-2 py-1 mt-1 border rounded-md"
+            value={template}
+            onChange={(event) => setTemplate(event.target.value)}
+          >
+            <option value="">Empty object</option>
+            {templates.map((schema) => (
+              <option key={schema} value={schema}>
+                {schema} schema
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            className="px-3 py-2 text-sm bg-gray-100 rounded-md hover:bg-gray-200"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-3 py-2 text-sm text-white bg-blue-500 rounded-md hover:bg-blue-600 disabled:bg-gray-300"
+            disabled={isLoading || !name.trim()}
+          >
+            Create
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useEditorStore } from "@/store/editorStore";
+import {
+  PREVIEW_CONTENT,
+  PreviewContentMessage,
+  getPreviewUrl,
+  isPreviewReadyMessage,
+} from "@/utils/preview";
+
+function parseContent(content: string): { valid: boolean; value?: unknown } {
+  try {
+    return { valid: true, value: JSON.parse(content) };
+  } catch {
+    return { valid: false };
+  }
+}
+
+/**
+ * Renders the site route configured for previews in an iframe and keeps it
+ * updated with the unsaved content of the open file. Pages pick the content
+ * up with `usePreviewContent`.
+ */
+export function PreviewPane({ route }: { route: string }) {
+  const { currentFile, content } = useEditorStore();
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const url = useMemo(
+    () => (currentFile ? getPreviewUrl(route, currentFile) : null),
+    [route, currentFile]
+  );
+  const parsed = useMemo(() => parseContent(content), [content]);
+
+  const postContent = useCallback(() => {
+    const frame = frameRef.current?.contentWindow;
+    if (!frame || !url || !currentFile || !parsed.valid) return;
+
+    const message: PreviewContentMessage = {
+      type: PREVIEW_CONTENT,
+      path: currentFile,
+      content: parsed.value,
+    };
+    frame.postMessage(message, new URL(url, window.location.href).origin);
+  }, [url, currentFile, parsed]);
+
+  // Send every edit; invalid JSON keeps the last valid version on screen
+  useEffect(() => {
+    postContent();
+  }, [postContent]);
+
+  // Pages announce themselves after each (re)load
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source === frameRef.current?.contentWindow && isPreviewReadyMessage(event.data)) {
+        postContent();
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [postContent]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b text-sm">
+        <span className="truncate text-gray-500" title={url || undefined}>
+          Preview{url && <>: <code>{url}</code></>}
+        </span>
+        {url && (
+          <div className="flex ml-2 space-x-3 whitespace-nowrap">
+            <button
+              className="text-blue-500 hover:text-blue-700"
+              onClick={() => setReloadCount((count) => count + 1)}
+            >
+              Reload
+            </button>
+            <a className="text-blue-500 hover:text-blue-700" href={url} target="_blank" rel="noreferrer">
+              Open
+            </a>
+          </div>
+        )}
+      </div>
+
+      {!parsed.valid && (
+        <div className="px-4 py-2 text-xs text-yellow-700 bg-yellow-50 border-b">
+          Fix the JSON syntax to update the preview.
+        </div>
+      )}
+
+      {url ? (
+        <iframe
+          key={`${url}:${reloadCount}`}
+          ref={frameRef}
+          src={url}
+          title="Preview"
+          className="flex-1 w-full bg-white"
+        />
+      ) : (
+        <div className="flex justify-center items-center flex-1 text-gray-500">
+          Select a file to preview
+        </div>
+      )}
+    </div>
+  );
+}
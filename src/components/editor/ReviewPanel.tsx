@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from "react";
+import classNames from "classnames";
+import { useEditorStore } from "@/store/editorStore";
+import { ChangeRequestList } from "@/services/git";
+import type { ChangeRequest } from "@/services/storage/types";
+
+type ListedChangeRequest = ChangeRequestList["changeRequests"][number];
+
+const STATE_COLORS: Record<ChangeRequest["state"], string> = {
+  open: "bg-green-100 text-green-700",
+  merged: "bg-purple-100 text-purple-700",
+  closed: "bg-gray-100 text-gray-600",
+};
+
+function RequestReviewForm({
+  branch,
+  publishBranch,
+  onSubmit,
+}: {
+  branch: string;
+  publishBranch: string;
+  onSubmit: (title: string, description: string) => Promise<void>;
+}) {
+  const { status } = useEditorStore();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onSubmit(title, description);
+      setTitle("");
+      setDescription("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="p-3 border-b space-y-2" onSubmit={handleSubmit}>
+      <p className="text-xs text-gray-500">
+        Request a review to publish <code>{branch}</code> to <code>{publishBranch}</code>.
+      </p>
+      {status.length > 0 && (
+        <p className="text-xs text-yellow-700">
+          Your {status.length} saved file(s) will be committed with the request.
+        </p>
+      )}
+      <input
+        className="w-full px-2 py-1 text-sm border rounded-md"
+        placeholder="Title"
+        value={title}
+        onChange={(event) => setTitle(event.target.value)}
+      />
+      <textarea
+        className="w-full px-2 py-1 text-sm border rounded-md"
+        placeholder="What changed and why (optional)"
+        rows={3}
+        value={description}
+        onChange={(event) => setDescription(event.target.value)}
+      />
+      <button
+        type="submit"
+        className="w-full px-3 py-2 text-sm text-white bg-blue-500 rounded-md hover:bg-blue-600 disabled:bg-gray-200 disabled:text-gray-500"
+        disabled={!title || isSubmitting}
+      >
+        Request review
+      </button>
+    </form>
+  );
+}
+
+function ChangeRequestCard({
+  request,
+  requiredApprovals,
+  onAction,
+}: {
+  request: ListedChangeRequest;
+  requiredApprovals: number;
+  onAction: (action: "approve" | "merge" | "close", request: ListedChangeRequest) => void;
+}) {
+  const { session, can, isLoading } = useEditorStore();
+  const isOwn = session?.user?.email === request.author.email;
+  const isOpen = request.state === "open";
+
+  return (
+    <li className="p-3">
+      <div className="flex items-start justify-between">
+        <div className="text-sm font-medium">
+          {request.title} <span className="text-gray-400">#{request.id}</span>
+        </div>
+        <span className={classNames("ml-2 px-2 text-xs rounded-full", STATE_COLORS[request.state])}>
+          {request.state}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500">
+        {request.author.name} · <code>{request.sourceBranch}</code> → <code>{request.targetBranch}</code>
+        {request.url && (
+          <>
+            {" · "}
+            <a className="text-blue-500 hover:underline" href={request.url} target="_blank" rel="noreferrer">
+              View pull request
+            </a>
+          </>
+        )}
+      </div>
+      {request.description && (
+        <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{request.description}</p>
+      )}
+
+      {isOpen && (
+        <>
+          {request.files && (
+            <ul className="mt-2 text-xs text-gray-600">
+              {request.files.map((file) => (
+                <li key={file}>
+                  <code>{file}</code>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-2 text-xs text-gray-500">
+            {request.approvals.length}/{requiredApprovals} approval(s)
+            {request.approvals.length > 0 &&
+              `: ${request.approvals.map((approval) => approval.name).join(", ")}`}
+          </div>
+          <div className="flex mt-2 text-xs space-x-2">
+            {can("publisher") && !isOwn && (
+              <button
+                className="px-2 py-1 text-white bg-green-500 rounded-md hover:bg-green-600 disabled:bg-gray-200"
+                disabled={isLoading}
+                onClick={() => onAction("approve", request)}
+              >
+                Approve
+              </button>
+            )}
+            {can("publisher") && (
+              <button
+                className="px-2 py-1 text-white bg-purple-500 rounded-md hover:bg-purple-600 disabled:bg-gray-200 disabled:text-gray-500"
+                disabled={isLoading || request.approvals.length < requiredApprovals}
+                title={
+                  request.approvals.length < requiredApprovals
+                    ? "Needs more approvals"
+                    : undefined
+                }
+                onClick={() => onAction("merge", request)}
+              >
+                Merge
+              </button>
+            )}
+            {(isOwn || can("publisher")) && (
+              <button
+                className="px-2 py-1 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                disabled={isLoading}
+                onClick={() => onAction("close", request)}
+              >
+                Close
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </li>
+  );
+}
+
+export function ReviewPanel() {
+  const { gitService, branchState, setSidePanel, can, refreshStatus } = useEditorStore();
+  const [list, setList] = useState<ChangeRequestList | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    gitService
+      .listChangeRequests()
+      .then(setList)
+      .catch((err) => setError((err as Error).message))
+      .finally(() => setIsLoading(false));
+  }, [gitService, reloadCount]);
+
+  const run = async (operation: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await operation();
+      await refreshStatus();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setReloadCount((count) => count + 1);
+    }
+  };
+
+  const handleAction = (action: "approve" | "merge" | "close", request: ListedChangeRequest) => {
+    if (action === "merge" && !window.confirm(
+      `Merge #${request.id} into ${request.targetBranch}? This publishes the changes.`
+    )) {
+      return;
+    }
+    run(() =>
+      action === "approve"
+        ? gitService.approveChangeRequest(request.id)
+        : action === "merge"
+        ? gitService.mergeChangeRequest(request.id)
+        : gitService.closeChangeRequest(request.id)
+    );
+  };
+
+  const openRequests = list?.changeRequests.filter((request) => request.state === "open") || [];
+  const pastRequests = list?.changeRequests.filter((request) => request.state !== "open").slice(0, 5) || [];
+  const canRequestReview =
+    !!branchState &&
+    branchState.branch !== branchState.publishBranch &&
+    can("editor") &&
+    !openRequests.some((request) => request.sourceBranch === branchState.branch);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="font-semibold">Review</h2>
+        <button
+          className="text-gray-500 hover:text-gray-700"
+          onClick={() => setSidePanel(null)}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {canRequestReview && (
+          <RequestReviewForm
+            branch={branchState.branch}
+            publishBranch={branchState.publishBranch}
+            onSubmit={(title, description) =>
+              run(() => gitService.openChangeRequest(title, description))
+            }
+          />
+        )}
+
+        {isLoading && !list ? (
+          <p className="p-4 text-sm text-gray-500">Loading change requests...</p>
+        ) : (
+          <>
+            {openRequests.length === 0 && (
+              <p className="p-4 text-sm text-gray-500">No open change requests.</p>
+            )}
+            <ul className="divide-y">
+              {openRequests.map((request) => (
+                <ChangeRequestCard
+                  key={request.id}
+                  request={request}
+                  requiredApprovals={list!.requiredApprovals}
+                  onAction={handleAction}
+                />
+              ))}
+            </ul>
+
+            {pastRequests.length > 0 && (
+              <>
+                <h3 className="px-3 pt-4 pb-1 text-xs font-semibold text-gray-500 uppercase">
+                  Recently closed
+                </h3>
+                <ul className="divide-y">
+                  {pastRequests.map((request) => (
+                    <ChangeRequestCard
+                      key={request.id}
+                      request={request}
+                      requiredApprovals={list!.requiredApprovals}
+                      onAction={handleAction}
+                    />
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-red-700 bg-red-100">{error}</div>
+      )}
+    </div>
+  );
+}
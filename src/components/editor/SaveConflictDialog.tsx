@@ -0,0 +1,73 @@
+import React, { useMemo } from "react";
+import { useEditorStore } from "@/store/editorStore";
+import { diffJson } from "@/utils/jsonDiff";
+
+/**
+ * Shown when saving fails because the open file was changed remotely after
+ * it was loaded.
+ */
+export function SaveConflictDialog() {
+  const { currentFile, content, saveConflict, isLoading, resolveSaveConflict } =
+    useEditorStore();
+
+  // Fields where the remote version differs from the user's edits
+  const changedPaths = useMemo(() => {
+    if (!saveConflict) return [];
+    try {
+      return diffJson(JSON.parse(saveConflict.remote), JSON.parse(content)).map(
+        (entry) => entry.path
+      );
+    } catch {
+      return [];
+    }
+  }, [saveConflict, content]);
+
+  if (!saveConflict) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+      <div className="w-full max-w-lg p-4 bg-white rounded-lg shadow-xl">
+        <h2 className="mb-2 font-semibold">File changed remotely</h2>
+        <p className="mb-3 text-sm text-gray-600">
+          Someone else saved <code>{currentFile}</code> after you opened it. Saving now
+          would overwrite their changes.
+        </p>
+        {changedPaths.length > 0 && (
+          <div className="mb-3 text-xs text-gray-500">
+            Differs from your version at:{" "}
+            <code className="break-all">{changedPaths.slice(0, 5).join(", ")}</code>
+            {changedPaths.length > 5 && ` and ${changedPaths.length - 5} more`}
+          </div>
+        )}
+        <ul className="mb-4 space-y-1 text-sm text-gray-600">
+          <li><strong>Reload</strong> discards your edits and loads their version.</li>
+          <li><strong>Merge</strong> combines both versions so you can review before saving.</li>
+          <li><strong>Overwrite</strong> saves your version over theirs.</li>
+        </ul>
+        <div className="flex justify-end space-x-2">
+          <button
+            className="px-3 py-2 text-sm bg-gray-100 rounded-md hover:bg-gray-200"
+            onClick={() => resolveSaveConflict("reload")}
+            disabled={isLoading}
+          >
+            Reload
+          </button>
+          <button
+            className="px-3 py-2 text-sm text-white bg-blue-500 rounded-md hover:bg-blue-600"
+            onClick={() => resolveSaveConflict("merge")}
+            disabled={isLoading}
+          >
+            Merge
+          </button>
+          <button
+            className="px-3 py-2 text-sm text-white bg-red-500 rounded-md hover:bg-red-600"
+            onClick={() => resolveSaveConflict("overwrite")}
+            disabled={isLoading}
+          >
+            Overwrite
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
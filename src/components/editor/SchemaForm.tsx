@@ -0,0 +1,346 @@
+import React, { useMemo, useRef } from "react";
+import { useEditorStore } from "@/store/editorStore";
+import {
+  JsonSchema,
+  createDefaultValue,
+  getSchemaType,
+  resolveSchema,
+} from "@/utils/jsonSchema";
+
+interface SchemaFieldProps {
+  schema: JsonSchema;
+  rootSchema: JsonSchema;
+  value: unknown;
+  label: string;
+  required?: boolean;
+  onChange: (value: unknown) => void;
+}
+
+const inputClasses =
+  "w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200";
+
+function FieldLabel({ label, required, description }: {
+  label: string;
+  required?: boolean;
+  description?: string;
+}) {
+  return (
+    <div className="mb-1">
+      <span className="text-sm font-medium text-gray-700">
+        {label}
+        {required && <span className="ml-1 text-red-500">*</span>}
+      </span>
+      {description && (
+        <p className="text-xs text-gray-500">{description}</p>
+      )}
+    </div>
+  );
+}
+
+function EnumField({ schema, value, label, required, onChange }: SchemaFieldProps) {
+  const options = schema.enum || [];
+  const selectedIndex = options.findIndex(
+    (option) => JSON.stringify(option) === JSON.stringify(value)
+  );
+
+  return (
+    <label className="block">
+      <FieldLabel label={label} required={required} description={schema.description} />
+      <select
+        className={inputClasses}
+        value={selectedIndex}
+        onChange={(e) => onChange(options[parseInt(e.target.value, 10)])}
+      >
+        {selectedIndex === -1 && <option value={-1}>Select...</option>}
+        {options.map((option, index) => (
+          <option key={index} value={index}>
+            {typeof option === "string" ? option : JSON.stringify(option)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/**
+ * Stable React keys for array items. Index keys would hand one item's input
+ * state to its neighbour after a move or remove, so each item gets an id that
+ * moves with it. Items added or removed outside the form (e.g. in the JSON
+ * view) get fresh ids at the end.
+ */
+function useItemKeys(length: number) {
+  const nextKey = useRef(0);
+  const keys = useRef<number[]>([]);
+
+  if (keys.current.length > length) {
+    keys.current = keys.current.slice(0, length);
+  }
+  while (keys.current.length < length) {
+    keys.current.push(nextKey.current++);
+  }
+
+  return keys;
+}
+
+function ArrayField({ schema, rootSchema, value, label, required, onChange }: SchemaFieldProps) {
+  const items = Array.isArray(value) ? value : [];
+  const itemSchema = schema.items || {};
+  const keys = useItemKeys(items.length);
+
+  const updateItem = (index: number, itemValue: unknown) => {
+    const next = [...items];
+    next[index] = itemValue;
+    onChange(next);
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (to < 0 || to >= items.length) return;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    const [key] = keys.current.splice(from, 1);
+    keys.current.splice(to, 0, key!);
+    onChange(next);
+  };
+
+  const removeItem = (index: number) => {
+    keys.current = keys.current.filter((_, i) => i !== index);
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const addItem = () => {
+    onChange([...items, createDefaultValue(itemSchema, rootSchema)]);
+  };
+
+  return (
+    <fieldset className="p-4 border rounded-md">
+      <legend className="px-1">
+        <FieldLabel label={label} required={required} description={schema.description} />
+      </legend>
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div key={keys.current[index]} className="p-3 border rounded-md bg-gray-50">
+            <div className="flex justify-end mb-2 space-x-2 text-xs">
+              <button
+                type="button"
+                className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                onClick={() => moveItem(index, index - 1)}
+                disabled={index === 0}
+              >
+                ↑ Up
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                onClick={() => moveItem(index, index + 1)}
+                disabled={index === items.length - 1}
+              >
+                ↓ Down
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 text-red-500 hover:text-red-700"
+                onClick={() => removeItem(index)}
+              >
+                Remove
+              </button>
+            </div>
+            <SchemaField
+              schema={itemSchema}
+              rootSchema={rootSchema}
+              value={item}
+              label={`${label} #${index + 1}`}
+              onChange={(itemValue) => updateItem(index, itemValue)}
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        className="mt-3 px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+        onClick={addItem}
+      >
+        + Add item
+      </button>
+    </fieldset>
+  );
+}
+
+function ObjectField({ schema, rootSchema, value, label, required, onChange }: SchemaFieldProps) {
+  const objectValue =
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  const properties = schema.properties || {};
+  const requiredKeys = schema.required || [];
+
+  const updateProperty = (key: string, propertyValue: unknown) => {
+    const next = { ...objectValue };
+    if (propertyValue === undefined) {
+      delete next[key];
+    } else {
+      next[key] = propertyValue;
+    }
+    onChange(next);
+  };
+
+  return (
+    <fieldset className="p-4 border rounded-md">
+      <legend className="px-1">
+        <FieldLabel label={label} required={required} description={schema.description} />
+      </legend>
+      <div className="space-y-4">
+        {Object.entries(properties).map(([key, propertySchema]) => (
+          <SchemaField
+            key={key}
+            schema={propertySchema}
+            rootSchema={rootSchema}
+            value={objectValue[key]}
+            label={propertySchema.title || key}
+            required={requiredKeys.includes(key)}
+            onChange={(propertyValue) => updateProperty(key, propertyValue)}
+          />
+        ))}
+        {Object.keys(properties).length === 0 && (
+          <p className="text-sm text-gray-500">
+            This object has no defined properties. Use the JSON view to edit it.
+          </p>
+        )}
+      </div>
+    </fieldset>
+  );
+}
+
+function SchemaField(props: SchemaFieldProps) {
+  const { rootSchema, value, label, required, onChange } = props;
+  const schema = resolveSchema(props.schema, rootSchema);
+  const fieldProps = { ...props, schema };
+
+  if (schema.enum) {
+    return <EnumField {...fieldProps} />;
+  }
+
+  const variant = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+  if (!schema.type && !schema.properties && variant) {
+    return <SchemaField {...props} schema={variant} />;
+  }
+
+  switch (getSchemaType(schema)) {
+    case "object":
+      return <ObjectField {...fieldProps} />;
+
+    case "array":
+      return <ArrayField {...fieldProps} />;
+
+    case "boolean":
+      return (
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          <span className="text-sm font-medium text-gray-700">
+            {label}
+            {required && <span className="ml-1 text-red-500">*</span>}
+          </span>
+        </label>
+      );
+
+    case "number":
+    case "integer":
+      return (
+        <label className="block">
+          <FieldLabel label={label} required={required} description={schema.description} />
+          <input
+            type="number"
+            className={inputClasses}
+            value={typeof value === "number" ? value : ""}
+            step={getSchemaType(schema) === "integer" ? 1 : "any"}
+            min={schema.minimum}
+            max={schema.maximum}
+            onChange={(e) =>
+              onChange(e.target.value === "" ? undefined : Number(e.target.value))
+            }
+          />
+        </label>
+      );
+
+    case "string":
+      return (
+        <label className="block">
+          <FieldLabel label={label} required={required} description={schema.description} />
+          <input
+            type={
+              schema.format === "email"
+                ? "email"
+                : schema.format === "uri"
+                ? "url"
+                : "text"
+            }
+            className={inputClasses}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) =>
+              onChange(e.target.value === "" && !required ? undefined : e.target.value)
+            }
+          />
+        </label>
+      );
+
+    default:
+      return (
+        <div>
+          <FieldLabel label={label} required={required} description={schema.description} />
+          <pre className="p-2 text-xs text-gray-600 bg-gray-50 border rounded-md overflow-auto">
+            {JSON.stringify(value, null, 2)}
+          </pre>
+          <p className="mt-1 text-xs text-gray-500">
+            This field can only be edited in the JSON view.
+          </p>
+        </div>
+      );
+  }
+}
+
+export function SchemaForm() {
+  const { content, schema, currentFile, setContent } = useEditorStore();
+
+  const parsed = useMemo(() => {
+    try {
+      return { value: JSON.parse(content) as unknown, error: null };
+    } catch (error) {
+      return { value: undefined, error: (error as Error).message };
+    }
+  }, [content]);
+
+  if (!schema) {
+    return (
+      <div className="flex justify-center items-center h-full text-gray-500">
+        No schema found for this file. Use the JSON view to edit it.
+      </div>
+    );
+  }
+
+  if (parsed.error) {
+    return (
+      <div className="flex flex-col justify-center items-center h-full text-gray-500">
+        <p>The file is not valid JSON, so the form cannot be shown.</p>
+        <p className="mt-2 text-sm text-red-500">{parsed.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-auto p-6 bg-white">
+      <div className="max-w-3xl mx-auto">
+        <SchemaField
+          schema={schema}
+          rootSchema={schema}
+          value={parsed.value}
+          label={schema.title || currentFile || "Content"}
+          onChange={(value) => setContent(JSON.stringify(value, null, 2))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import {
+  PREVIEW_READY,
+  PreviewReadyMessage,
+  isPreviewContentMessage,
+  isSameContentFile,
+} from "@/utils/preview";
+
+/**
+ * Returns `content` loaded by the page, replaced with the editor's unsaved
+ * version of `filePath` while the page is shown in the editor's preview
+ * pane. Outside the editor it always returns `content`.
+ *
+ * `editorOrigin` is only needed when the editor runs on another origin than
+ * the site.
+ */
+export function usePreviewContent<T>(filePath: string, content: T, editorOrigin?: string): T {
+  const [preview, setPreview] = useState<T | null>(null);
+
+  useEffect(() => {
+    if (window.parent === window) return;
+    const origin = editorOrigin || window.location.origin;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== origin || event.source !== window.parent) return;
+      if (isPreviewContentMessage(event.data) && isSameContentFile(event.data.path, filePath)) {
+        setPreview(event.data.content as T);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    const ready: PreviewReadyMessage = { type: PREVIEW_READY };
+    window.parent.postMessage(ready, origin);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [filePath, editorOrigin]);
+
+  return preview ?? content;
+}
@@ -0,0 +1,5 @@
+// Package entry for sites reading their content, used by the code that
+// `next-json-cms generate` writes.
+export { ContentLoader } from "./services/contentLoader";
+export type { ContentLoaderOptions } from "./services/contentLoader";
+export { ValidationError, ValidationService } from "./services/validation";
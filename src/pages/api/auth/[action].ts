@@ -0,0 +1,143 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import crypto from "crypto";
+import { z } from "zod";
+import {
+  AuthError,
+  appendCookie,
+  createSession,
+  destroySession,
+  getAuthErrorStatus,
+  getAuthMode,
+  getAuthProvider,
+  getSafeNextPath,
+  getSessionUser,
+  parseCookies,
+  serializeCookie,
+} from "@/services/auth";
+import { BRANCH_COOKIE } from "@/services/workflow";
+
+const STATE_COOKIE = "cms_oidc_state";
+
+// Validation schemas
+const LoginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+const CallbackQuerySchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+});
+
+function getRedirectUri(req: NextApiRequest): string {
+  if (process.env.CMS_OIDC_REDIRECT_URI) {
+    return process.env.CMS_OIDC_REDIRECT_URI;
+  }
+  const protocol = (req.headers["x-forwarded-proto"] as string) || "http";
+  return `${protocol}://${req.headers.host}/api/auth/callback`;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { action } = req.query;
+
+  try {
+    switch (action) {
+      case "session": {
+        if (req.method !== "GET") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const mode = getAuthMode();
+        return res.status(200).json({
+          mode,
+          user: mode === "none" ? null : getSessionUser(req),
+        });
+      }
+
+      case "login": {
+        const provider = getAuthProvider();
+
+        if (provider.type === "password") {
+          if (req.method !== "POST") {
+            return res.status(405).json({ error: "Method not allowed" });
+          }
+          const credentials = LoginSchema.parse(req.body);
+          const user = await provider.authenticate(credentials.username, credentials.password);
+          createSession(res, user);
+          return res.status(200).json({ user });
+        }
+
+        if (req.method !== "GET") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+        // The state ties the callback to this browser and carries the
+        // page to return to
+        const next = getSafeNextPath(req.query.next);
+        const state = `${crypto.randomBytes(16).toString("hex")}:${next}`;
+        appendCookie(res, serializeCookie(STATE_COOKIE, state, 10 * 60));
+        return res.redirect(302, await provider.getAuthorizationUrl(state, getRedirectUri(req)));
+      }
+
+      case "callback": {
+        if (req.method !== "GET") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const provider = getAuthProvider();
+        if (provider.type !== "redirect") {
+          throw new AuthError("The configured provider does not use redirects", "AUTH_DISABLED");
+        }
+
+        const query = CallbackQuerySchema.parse(req.query);
+        const expectedState = parseCookies(req)[STATE_COOKIE];
+        if (!expectedState || expectedState !== query.state) {
+          throw new AuthError("Sign-in request expired or was tampered with", "INVALID_STATE");
+        }
+
+        const user = await provider.handleCallback(query.code, getRedirectUri(req));
+        appendCookie(res, serializeCookie(STATE_COOKIE, "", 0));
+        createSession(res, user);
+        return res.redirect(302, getSafeNextPath(query.state.split(":").slice(1).join(":")));
+      }
+
+      case "logout": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        destroySession(res);
+        // The next user starts on their own default branch
+        appendCookie(res, serializeCookie(BRANCH_COOKIE, "", 0));
+        return res.status(200).json({ success: true });
+      }
+
+      default:
+        return res.status(400).json({ error: "Invalid action" });
+    }
+  } catch (error) {
+    console.error(`Error in auth operation (${action}):`, error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Invalid request",
+        code: "INVALID_REQUEST",
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof AuthError) {
+      return res.status(getAuthErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    return res.status(500).json({
+      message: (error as Error).message,
+      code: "AUTH_ERROR",
+    });
+  }
+}
@@ -0,0 +1,309 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { ChangeRequestStore } from "@/services/changeRequests";
+import {
+  ChangeRequest,
+  StorageBackend,
+  StorageError,
+  getStorageBackend,
+  getStorageErrorStatus,
+} from "@/services/storage";
+import {
+  assertCanCommit,
+  getPublishBranch,
+  getRequiredApprovals,
+  getWorkflowMode,
+  getWorkingStorage,
+} from "@/services/workflow";
+import {
+  AuthError,
+  AuthUser,
+  Role,
+  getAuthErrorStatus,
+  getCommitAuthor,
+  hasRole,
+  requireRole,
+} from "@/services/auth";
+
+const store = new ChangeRequestStore();
+
+// Validation schemas
+const AuthorSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+});
+
+const OpenSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(""),
+  author: AuthorSchema.optional(),
+});
+
+const ChangeRequestActionSchema = z.object({
+  id: z.string().min(1),
+  author: AuthorSchema.optional(),
+});
+
+// Editors submit their drafts; publishers review and merge them
+const REQUIRED_ROLES: Record<string, Role> = {
+  list: "viewer",
+  open: "editor",
+  close: "editor",
+  approve: "publisher",
+  merge: "publisher",
+};
+
+const ANONYMOUS_AUTHOR = { name: "JSON CMS", email: "json-cms@example.com" };
+
+async function getSourceHead(storage: StorageBackend, request: ChangeRequest): Promise<string> {
+  const branch = (await storage.listBranches()).find(
+    (existing) => existing.name === request.sourceBranch
+  );
+  if (!branch) {
+    throw new StorageError(`Branch ${request.sourceBranch} not found`, "NOT_FOUND");
+  }
+  return branch.head;
+}
+
+/**
+ * Approvals cover the commits that were reviewed: once the source branch
+ * moves on they are dropped, and the change request needs a new review.
+ */
+async function resetStaleApprovals(
+  storage: StorageBackend,
+  request: ChangeRequest,
+  head: string
+): Promise<ChangeRequest> {
+  const approvals = request.approvals.filter((approval) => approval.head === head);
+  if (approvals.length === request.approvals.length) {
+    return request;
+  }
+  const updated = { ...request, approvals };
+  await store.save(updated);
+  return updated;
+}
+
+async function getOpenRequest(storage: StorageBackend, id: string): Promise<ChangeRequest> {
+  const request = await store.get(id);
+  if (!request) {
+    throw new StorageError(`Change request ${id} not found`, "NOT_FOUND");
+  }
+
+  // Pull requests may have been merged or closed on GitHub in the meantime
+  let state = request.state;
+  if (state === "open") {
+    state = await storage.getChangeRequestState(request);
+    if (state !== "open") {
+      await store.save({ ...request, state });
+    }
+  }
+  if (state !== "open") {
+    throw new StorageError(`Change request ${id} is no longer open`, "CONFLICT");
+  }
+  return resetStaleApprovals(storage, request, await getSourceHead(storage, request));
+}
+
+function isAuthor(user: AuthUser | null, request: ChangeRequest): boolean {
+  return !!user && user.email === request.author.email;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { action } = req.query;
+
+  try {
+    const user = requireRole(req, REQUIRED_ROLES[action as string] || "publisher");
+    // Merging and status checks do not need a particular branch checked out
+    const storage = getStorageBackend();
+
+    switch (action) {
+      case "list": {
+        if (req.method !== "GET") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const changeRequests = await Promise.all(
+          (await store.list()).map(async (request) => {
+            if (request.state !== "open") {
+              return request;
+            }
+            const state = await storage.getChangeRequestState(request);
+            if (state !== request.state) {
+              await store.save({ ...request, state });
+              return { ...request, state };
+            }
+            const head = await getSourceHead(storage, request).catch(() => null);
+            const current = head ? await resetStaleApprovals(storage, request, head) : request;
+            const files = await storage
+              .getChangedFiles(request.targetBranch, request.sourceBranch)
+              .catch(() => []);
+            return { ...current, files };
+          })
+        );
+
+        return res.status(200).json({
+          changeRequests,
+          workflow: getWorkflowMode(),
+          requiredApprovals: getRequiredApprovals(),
+        });
+      }
+
+      case "open": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const data = OpenSchema.parse(req.body);
+        const workingStorage = getWorkingStorage(req, user);
+        const sourceBranch = await workingStorage.getBranch();
+        const targetBranch = getPublishBranch();
+
+        if (sourceBranch === targetBranch) {
+          throw new StorageError(
+            `Changes on ${targetBranch} are already published`,
+            "INVALID_BRANCH"
+          );
+        }
+        const existing = (await store.list()).find(
+          (request) => request.state === "open" && request.sourceBranch === sourceBranch
+        );
+        if (existing) {
+          throw new StorageError(
+            `${sourceBranch} already has an open change request (#${existing.id})`,
+            "ALREADY_EXISTS"
+          );
+        }
+        // Saved changes that are not committed yet are part of the request
+        if ((await workingStorage.getStatus()).length > 0) {
+          await assertCanCommit(workingStorage, user);
+          await workingStorage.commit(data.title, getCommitAuthor(user, data.author));
+        }
+        if ((await storage.getChangedFiles(targetBranch, sourceBranch)).length === 0) {
+          throw new StorageError(
+            `${sourceBranch} has no changes to publish`,
+            "NOTHING_TO_COMMIT"
+          );
+        }
+
+        const request: ChangeRequest = {
+          id: "",
+          title: data.title,
+          description: data.description,
+          sourceBranch,
+          targetBranch,
+          author: getCommitAuthor(user, data.author) || ANONYMOUS_AUTHOR,
+          createdAt: Date.now(),
+          state: "open",
+          approvals: [],
+        };
+        const remote = await storage.openChangeRequest(request);
+        const saved = await store.save({
+          ...request,
+          ...remote,
+          id: remote.number ? String(remote.number) : "",
+        });
+        return res.status(200).json(saved);
+      }
+
+      case "approve": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const data = ChangeRequestActionSchema.parse(req.body);
+        const request = await getOpenRequest(storage, data.id);
+        if (isAuthor(user, request)) {
+          throw new AuthError("You cannot approve your own change request", "FORBIDDEN");
+        }
+
+        const reviewer = getCommitAuthor(user, data.author) || ANONYMOUS_AUTHOR;
+        const approvals = request.approvals.filter(
+          (approval) => approval.email !== reviewer.email
+        );
+        const head = await getSourceHead(storage, request);
+        const approved = {
+          ...request,
+          approvals: [...approvals, { ...reviewer, approvedAt: Date.now(), head }],
+        };
+        await store.save(approved);
+        return res.status(200).json(approved);
+      }
+
+      case "merge": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const data = ChangeRequestActionSchema.parse(req.body);
+        const request = await getOpenRequest(storage, data.id);
+        const requiredApprovals = getRequiredApprovals();
+        if (request.approvals.length < requiredApprovals) {
+          throw new StorageError(
+            `Change request #${request.id} needs ${requiredApprovals} approval(s) before it can be merged`,
+            "NOT_APPROVED"
+          );
+        }
+
+        const mergeCommit = await storage.mergeChangeRequest(
+          request,
+          `Merge change request #${request.id}: ${request.title}`,
+          getCommitAuthor(user, data.author)
+        );
+        const merged = { ...request, state: "merged" as const, mergeCommit };
+        await store.save(merged);
+        return res.status(200).json(merged);
+      }
+
+      case "close": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const data = ChangeRequestActionSchema.parse(req.body);
+        const request = await getOpenRequest(storage, data.id);
+        if (user && !isAuthor(user, request) && !hasRole(user, "publisher")) {
+          throw new AuthError("Only the author or a publisher can close this change request", "FORBIDDEN");
+        }
+
+        await storage.closeChangeRequest(request);
+        const closed = { ...request, state: "closed" as const };
+        await store.save(closed);
+        return res.status(200).json(closed);
+      }
+
+      default:
+        return res.status(400).json({ error: "Invalid action" });
+    }
+  } catch (error) {
+    console.error(`Error in change request operation (${action}):`, error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Invalid request",
+        code: "INVALID_REQUEST",
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof AuthError) {
+      return res.status(getAuthErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    if (error instanceof StorageError) {
+      return res.status(getStorageErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    return res.status(500).json({
+      message: (error as Error).message,
+      code: "CHANGE_REQUEST_ERROR",
+    });
+  }
+}
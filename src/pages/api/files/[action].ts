@@ -0,0 +1,284 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import fs from "fs/promises";
+import { z } from "zod";
+import { SchemaRegistry } from "@/services/schemaRegistry";
+import {
+  FOLDER_MARKER,
+  FileChange,
+  StorageBackend,
+  StorageError,
+  getStorageErrorStatus,
+  isJsonFile,
+} from "@/services/storage";
+import { ValidationError } from "@/services/validation";
+import { assertCanCommit, getWorkingStorage } from "@/services/workflow";
+import { JsonSchema, createDefaultValue } from "@/utils/jsonSchema";
+import { isValidContentPath, normalizeContentPath } from "@/utils/contentPath";
+import {
+  AuthError,
+  AuthUser,
+  PathPermissions,
+  getAuthErrorStatus,
+  getCommitAuthor,
+  requireRole,
+} from "@/services/auth";
+
+const schemaRegistry = new SchemaRegistry();
+
+// Validation schemas
+const AuthorSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+});
+
+// Files must be JSON; folders (and paths that may be either) only need to
+// stay inside the content directory
+const ContentPathSchema = z
+  .string()
+  .refine((value) => isValidContentPath(value, "folder"), "Invalid path")
+  .transform((value) => normalizeContentPath(value, "folder"));
+
+const FilePathSchema = z
+  .string()
+  .refine((value) => isValidContentPath(value), "Invalid path; file names must end in .json")
+  .transform((value) => normalizeContentPath(value));
+
+const CreateFileSchema = z.object({
+  path: FilePathSchema,
+  // Content path whose schema provides the initial content, e.g. `blog.json`
+  template: z.string().optional(),
+  author: AuthorSchema.optional(),
+});
+
+const CreateFolderSchema = z.object({
+  path: ContentPathSchema,
+  author: AuthorSchema.optional(),
+});
+
+const MoveSchema = z.object({
+  from: ContentPathSchema,
+  to: ContentPathSchema,
+  author: AuthorSchema.optional(),
+});
+
+const DuplicateSchema = z.object({
+  from: FilePathSchema,
+  to: FilePathSchema,
+  author: AuthorSchema.optional(),
+});
+
+const DeleteSchema = z.object({
+  path: ContentPathSchema,
+  author: AuthorSchema.optional(),
+});
+
+/**
+ * Returns the files a path refers to: the file itself, or every file inside
+ * the folder. An empty list means the path does not exist.
+ */
+function getAffectedPaths(paths: string[], target: string): string[] {
+  return paths.filter((filePath) => filePath === target || filePath.startsWith(`${target}/`));
+}
+
+function assertAvailable(paths: string[], target: string) {
+  if (getAffectedPaths(paths, target).length > 0) {
+    throw new StorageError(`${target} already exists`, "ALREADY_EXISTS");
+  }
+}
+
+// Every file an operation writes or deletes must be writable by the user
+function assertWritable(permissions: PathPermissions, user: AuthUser | null, changes: FileChange[]) {
+  for (const change of changes) {
+    permissions.assert(user, change.path, "write");
+  }
+}
+
+async function getTemplateContent(template?: string): Promise<string> {
+  if (!template) {
+    return "{}\n";
+  }
+
+  const schemaFile = schemaRegistry.getSchemaFile(template);
+  if (!schemaFile) {
+    throw new StorageError(`No schema found for template ${template}`, "NOT_FOUND");
+  }
+
+  const schema = JSON.parse(await fs.readFile(schemaFile, "utf-8")) as JsonSchema;
+  return JSON.stringify(createDefaultValue(schema) ?? {}, null, 2) + "\n";
+}
+
+async function moveChanges(
+  storage: StorageBackend,
+  sources: string[],
+  from: string,
+  to: string,
+  keepSources: boolean
+): Promise<FileChange[]> {
+  const changes: FileChange[] = [];
+  for (const source of sources) {
+    const content = await storage.readFile(source);
+    changes.push({ path: to + source.slice(from.length), content });
+    if (!keepSources) {
+      changes.push({ path: source, content: null });
+    }
+  }
+  return changes;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { action } = req.query;
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // Every operation is committed right away, so it needs the right to
+    // commit to the branch; path permissions are checked per file below
+    const user = requireRole(req, "editor");
+    const storage = getWorkingStorage(req, user);
+    await assertCanCommit(storage, user);
+    const paths = await storage.listPaths();
+    const permissions = await PathPermissions.load();
+
+    switch (action) {
+      case "create": {
+        const data = CreateFileSchema.parse(req.body);
+        assertAvailable(paths, data.path);
+
+        const content = await getTemplateContent(data.template);
+        const changes = [{ path: data.path, content }];
+        assertWritable(permissions, user, changes);
+        // Schemas are matched by file name, so a file created from a template
+        // is checked against the template's schema; other new files against
+        // the schema for their path, like saves
+        await schemaRegistry.validateJson(data.template || data.path, content);
+        const result = await storage.applyChanges(
+          changes,
+          `Create ${data.path}`,
+          getCommitAuthor(user, data.author)
+        );
+        return res.status(200).json({ ...result, path: data.path, content });
+      }
+
+      case "mkdir": {
+        const data = CreateFolderSchema.parse(req.body);
+        assertAvailable(paths, data.path);
+
+        const changes = [{ path: `${data.path}/${FOLDER_MARKER}`, content: "" }];
+        assertWritable(permissions, user, changes);
+        const result = await storage.applyChanges(
+          changes,
+          `Create folder ${data.path}`,
+          getCommitAuthor(user, data.author)
+        );
+        return res.status(200).json({ ...result, path: data.path });
+      }
+
+      case "rename": {
+        const data = MoveSchema.parse(req.body);
+        const sources = getAffectedPaths(paths, data.from);
+        if (sources.length === 0) {
+          throw new StorageError(`${data.from} not found`, "NOT_FOUND");
+        }
+        if (sources.includes(data.from) && !isJsonFile(data.to)) {
+          throw new StorageError("File names must end in .json", "INVALID_PATH");
+        }
+        if (data.to.startsWith(`${data.from}/`)) {
+          throw new StorageError("A folder cannot be moved into itself", "INVALID_PATH");
+        }
+        assertAvailable(paths, data.to);
+
+        const changes = await moveChanges(storage, sources, data.from, data.to, false);
+        assertWritable(permissions, user, changes);
+        const result = await storage.applyChanges(
+          changes,
+          `Rename ${data.from} to ${data.to}`,
+          getCommitAuthor(user, data.author)
+        );
+        return res.status(200).json({ ...result, path: data.to });
+      }
+
+      case "duplicate": {
+        const data = DuplicateSchema.parse(req.body);
+        if (!paths.includes(data.from)) {
+          throw new StorageError(`${data.from} not found`, "NOT_FOUND");
+        }
+        assertAvailable(paths, data.to);
+
+        permissions.assert(user, data.from, "read");
+        const changes = await moveChanges(storage, [data.from], data.from, data.to, true);
+        assertWritable(permissions, user, changes);
+        const result = await storage.applyChanges(
+          changes,
+          `Duplicate ${data.from} as ${data.to}`,
+          getCommitAuthor(user, data.author)
+        );
+        return res.status(200).json({ ...result, path: data.to });
+      }
+
+      case "delete": {
+        const data = DeleteSchema.parse(req.body);
+        const targets = getAffectedPaths(paths, data.path);
+        if (targets.length === 0) {
+          throw new StorageError(`${data.path} not found`, "NOT_FOUND");
+        }
+
+        const changes = targets.map((target) => ({ path: target, content: null }));
+        assertWritable(permissions, user, changes);
+        const result = await storage.applyChanges(
+          changes,
+          `Delete ${data.path}`,
+          getCommitAuthor(user, data.author)
+        );
+        return res.status(200).json({ ...result, path: data.path });
+      }
+
+      default:
+        return res.status(400).json({ error: "Invalid action" });
+    }
+  } catch (error) {
+    console.error(`Error in file operation (${action}):`, error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: error.errors.map((issue) => issue.message).join(", "),
+        code: "INVALID_REQUEST",
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      const issues = error.errors.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      );
+      return res.status(400).json({
+        message: `${error.message} (${issues.join("; ")})`,
+        code: "VALIDATION_ERROR",
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof AuthError) {
+      return res.status(getAuthErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    if (error instanceof StorageError) {
+      return res.status(getStorageErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    return res.status(500).json({
+      message: (error as Error).message,
+      code: "FILE_OPERATION_ERROR",
+    });
+  }
+}
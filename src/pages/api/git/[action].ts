@@ -1,137 +1,147 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { z } from "zod";
+import {
+  StorageBackend,
+  StorageError,
+  getStorageBackend,
+  getStorageErrorStatus,
+} from "@/services/storage";
+import {
+  BRANCH_COOKIE,
+  BRANCH_COOKIE_MAX_AGE,
+  assertCanCommit,
+  assertWritableBranch,
+  getDefaultStorage,
+  getDraftBranch,
+  getPublishBranch,
+  getWorkflowMode,
+  getWorkingStorage,
+  isValidBranchName,
+} from "@/services/workflow";
+import { isValidContentPath } from "@/utils/contentPath";
+import {
+  AuthError,
+  AuthUser,
+  PathPermissions,
+  Role,
+  appendCookie,
+  getAuthErrorStatus,
+  getCommitAuthor,
+  requireRole,
+  serializeCookie,
+} from "@/services/auth";
 
 // Validation schemas
+const AuthorSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+});
+
 const CommitSchema = z.object({
   message: z.string().min(1),
+  author: AuthorSchema.optional(),
 });
 
+// Push and pull the branch being edited unless another one is given
 const GitOperationSchema = z.object({
   remote: z.string().default("origin"),
-  branch: z.string().default("main"),
-});
-
-const RevertOperationSchema = z.object({
-  path: z.string().min(1),
-  ref: z.string().optional(),
+  branch: z.string().optional(),
+  author: AuthorSchema.optional(),
 });
 
-interface GitHubTreeResponse {
-  sha: string;
-  tree: Array<{
-    path: string;
-    mode: string;
-    type: string;
-    sha: string;
-    url: string;
-  }>;
-}
+const BranchNameSchema = z
+  .string()
+  .refine((value) => isValidBranchName(value), "Invalid branch name");
 
-interface GitHubCommitResponse {
-  sha: string;
-}
+const CreateBranchSchema = z.object({
+  name: BranchNameSchema,
+  // Defaults to the branch being edited
+  from: BranchNameSchema.optional(),
+});
 
-async function getGitHubApi() {
-  const token = process.env.GITHUB_TOKEN;
-  const repo = process.env.GITHUB_REPO;
-  const owner = process.env.GITHUB_OWNER;
-  const branch = process.env.GITHUB_BRANCH || 'main';
+const DeleteBranchSchema = z.object({
+  name: BranchNameSchema,
+});
 
-  if (!token || !repo || !owner) {
-    throw new Error('GitHub configuration is missing. Please set GITHUB_TOKEN, GITHUB_REPO, and GITHUB_OWNER in .env.local');
-  }
+// Omit the name to go back to the default branch
+const SwitchBranchSchema = z.object({
+  name: BranchNameSchema.nullable().optional(),
+});
 
-  const baseUrl = `https://api.github.com/repos/${owner}/${repo}`;
-  const headers = {
-    Authorization: `token ${token}`,
-    Accept: 'application/vnd.github.v3+json',
-    'Content-Type': 'application/json',
-  };
+const ContentFilePathSchema = z
+  .string()
+  .refine((value) => isValidContentPath(value), "Invalid content file path");
 
-  return { baseUrl, headers, branch };
-}
+const HistoryQuerySchema = z.object({
+  path: ContentFilePathSchema,
+  limit: z.coerce.number().int().positive().max(100).default(30),
+});
 
-async function getCurrentCommit(baseUrl: string, headers: HeadersInit, branch: string) {
-  const response = await fetch(`${baseUrl}/git/refs/heads/${branch}`, {
-    headers,
-  });
+const RevertOperationSchema = z.object({
+  path: ContentFilePathSchema,
+  ref: z.string().optional(),
+});
 
-  if (!response.ok) {
-    throw new Error(`Failed to get current commit: ${response.statusText}`);
-  }
+const RestoreOperationSchema = RevertOperationSchema.extend({
+  ref: z.string().min(1),
+  author: AuthorSchema.optional(),
+});
 
-  const data = await response.json();
-  return data.object.sha;
-}
+// Reading is open to viewers, changing the working copy to editors, and
+// anything else that creates commits or updates the remote to publishers.
+// Editors commit to their own draft branch (see assertCanCommit). Listing
+// and switching branches is open to viewers; creating and deleting them is
+// checked below.
+const REQUIRED_ROLES: Record<string, Role> = {
+  status: "viewer",
+  branch: "viewer",
+  history: "viewer",
+  pull: "editor",
+  revert: "editor",
+  commit: "editor",
+  push: "publisher",
+  restore: "publisher",
+};
 
-async function createTree(
-  baseUrl: string, 
-  headers: HeadersInit, 
-  files: Array<{ path: string; content: string }>,
-  baseTree: string
-) {
-  const response = await fetch(`${baseUrl}/git/trees`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      base_tree: baseTree,
-      tree: files.map(file => ({
-        path: file.path,
-        mode: '100644',
-        type: 'blob',
-        content: file.content,
-      })),
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to create tree: ${response.statusText}`);
+function getGitHubInfo(storage: StorageBackend, branch: string) {
+  if (storage.mode === "github") {
+    return {
+      configured: true,
+      repo: process.env.GITHUB_REPO,
+      owner: process.env.GITHUB_OWNER,
+      branch,
+    };
   }
-
-  return (await response.json() as GitHubTreeResponse).sha;
+  return {
+    configured: false,
+    message: "GitHub integration is not configured. Changes are committed to the local git repository.",
+  };
 }
 
-async function createCommit(
-  baseUrl: string,
-  headers: HeadersInit,
-  message: string,
-  treeSha: string,
-  parentCommitSha: string
-) {
-  const response = await fetch(`${baseUrl}/git/commits`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      message,
-      tree: treeSha,
-      parents: [parentCommitSha],
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to create commit: ${response.statusText}`);
+// Whether assertCanCommit lets the user commit to the storage's branch
+async function canCommit(storage: StorageBackend, user: AuthUser | null): Promise<boolean> {
+  try {
+    await assertCanCommit(storage, user);
+    return true;
+  } catch (error) {
+    if (error instanceof AuthError || (error instanceof StorageError && error.code === "PROTECTED_BRANCH")) {
+      return false;
+    }
+    throw error;
   }
-
-  return (await response.json() as GitHubCommitResponse).sha;
 }
 
-async function updateRef(
-  baseUrl: string,
-  headers: HeadersInit,
-  branch: string,
-  commitSha: string
-) {
-  const response = await fetch(`${baseUrl}/git/refs/heads/${branch}`, {
-    method: 'PATCH',
-    headers,
-    body: JSON.stringify({
-      sha: commitSha,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to update ref: ${response.statusText}`);
-  }
+async function getBranchState(storage: StorageBackend, user: AuthUser | null) {
+  const branch = await storage.getBranch();
+  return {
+    branch,
+    canCommit: await canCommit(storage, user),
+    publishBranch: getPublishBranch(),
+    workflow: getWorkflowMode(),
+    branches: await storage.listBranches(),
+    storage: storage.mode,
+    github: getGitHubInfo(storage, branch),
+  };
 }
 
 export default async function handler(
@@ -141,99 +151,211 @@ export default async function handler(
   const { action } = req.query;
 
   try {
-    const { baseUrl, headers, branch } = await getGitHubApi();
+    const user = requireRole(req, REQUIRED_ROLES[action as string] || "publisher");
+    const storage = getWorkingStorage(req, user);
 
     switch (action) {
-      case "commit":
+      case "commit": {
         if (req.method !== "POST") {
           return res.status(405).json({ error: "Method not allowed" });
         }
-        
+
         const commitData = CommitSchema.parse(req.body);
-        const currentCommit = await getCurrentCommit(baseUrl, headers, branch);
-        
-        // In a real implementation, you'd gather all changed files here
-        // For now, we're just creating an empty commit
-        const treeSha = await createTree(baseUrl, headers, [], currentCommit);
-        const newCommit = await createCommit(
-          baseUrl,
-          headers,
+        await assertCanCommit(storage, user);
+        const result = await storage.commit(
           commitData.message,
-          treeSha,
-          currentCommit
+          getCommitAuthor(user, commitData.author)
         );
-        
-        await updateRef(baseUrl, headers, branch, newCommit);
-        return res.status(200).json({ commitId: newCommit });
+        return res.status(200).json(result);
+      }
+
+      case "push": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const pushData = GitOperationSchema.parse(req.body || {});
+        const result = await storage.push({
+          ...pushData,
+          branch: pushData.branch || (await storage.getBranch()),
+        });
+        return res.status(200).json(result);
+      }
+
+      case "pull": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const pullData = GitOperationSchema.parse(req.body || {});
+        const result = await storage.pull({
+          ...pullData,
+          branch: pullData.branch || (await storage.getBranch()),
+          author: getCommitAuthor(user, pullData.author),
+        });
+        return res.status(200).json(result);
+      }
 
-      case "status":
+      case "history": {
         if (req.method !== "GET") {
           return res.status(405).json({ error: "Method not allowed" });
         }
 
-        // Since we're now using local files, GitHub integration is optional
-        // Return a status indicating GitHub configuration state
-        return res.status(200).json({ 
-          status: [],
-          github: {
-            configured: true,
-            repo: process.env.GITHUB_REPO,
-            owner: process.env.GITHUB_OWNER,
-            branch
-          }
+        const query = HistoryQuerySchema.parse(req.query);
+        (await PathPermissions.load()).assert(user, query.path, "read");
+        const history = await storage.getHistory(query.path, query.limit);
+        return res.status(200).json({ history });
+      }
+
+      case "revert": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const revertData = RevertOperationSchema.parse(req.body);
+        (await PathPermissions.load()).assert(user, revertData.path, "write");
+        await assertWritableBranch(storage);
+        const content = await storage.revert(revertData.path, revertData.ref);
+        return res.status(200).json({ path: revertData.path, content });
+      }
+
+      case "restore": {
+        if (req.method !== "POST") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const restoreData = RestoreOperationSchema.parse(req.body);
+        (await PathPermissions.load()).assert(user, restoreData.path, "write");
+        await assertWritableBranch(storage);
+        const result = await storage.restore(
+          restoreData.path,
+          restoreData.ref,
+          `Restore ${restoreData.path} to ${restoreData.ref.slice(0, 7)}`,
+          getCommitAuthor(user, restoreData.author)
+        );
+        return res.status(200).json(result);
+      }
+
+      case "status": {
+        if (req.method !== "GET") {
+          return res.status(405).json({ error: "Method not allowed" });
+        }
+
+        const branch = await storage.getBranch();
+        return res.status(200).json({
+          status: await storage.getStatus(),
+          storage: storage.mode,
+          github: getGitHubInfo(storage, branch),
         });
+      }
 
-      case "branch":
+      case "branch": {
         if (req.method === "GET") {
-          // When GitHub isn't configured, return the default branch
-          const defaultBranch = "main";
-          return res.status(200).json({ 
-            branch: branch || defaultBranch,
-            github: {
-              configured: true,
-              repo: process.env.GITHUB_REPO,
-              owner: process.env.GITHUB_OWNER
-            }
-          });
+          return res.status(200).json(await getBranchState(storage, user));
+        }
+
+        if (req.method === "PUT") {
+          const data = SwitchBranchSchema.parse(req.body || {});
+          // Choosing the user's own draft branch is the same as the default
+          const name =
+            data.name && !(getWorkflowMode() === "editorial" && data.name === getDraftBranch(user))
+              ? data.name
+              : null;
+          if (name && !(await storage.listBranches()).some((existing) => existing.name === name)) {
+            throw new StorageError(`Branch ${name} not found`, "NOT_FOUND");
+          }
+
+          // Resolving the branch checks it out in local mode, so a dirty
+          // working copy is reported before the selection is stored
+          const state = await getBranchState(
+            name ? getStorageBackend({ branch: name }) : getDefaultStorage(user),
+            user
+          );
+          appendCookie(
+            res,
+            name
+              ? serializeCookie(BRANCH_COOKIE, name, BRANCH_COOKIE_MAX_AGE)
+              : serializeCookie(BRANCH_COOKIE, "", 0)
+          );
+          return res.status(200).json(state);
         }
+
+        const branch = await storage.getBranch();
+        const publishBranch = getPublishBranch();
+
+        if (req.method === "POST") {
+          requireRole(req, "editor");
+          const data = CreateBranchSchema.parse(req.body);
+          const branches = await storage.listBranches();
+          if (branches.some((existing) => existing.name === data.name)) {
+            throw new StorageError(`Branch ${data.name} already exists`, "ALREADY_EXISTS");
+          }
+
+          await storage.createBranch(data.name, data.from || branch);
+          return res.status(200).json({ name: data.name, from: data.from || branch });
+        }
+
+        if (req.method === "DELETE") {
+          requireRole(req, "publisher");
+          const data = DeleteBranchSchema.parse(req.body);
+          if (data.name === publishBranch || data.name === branch) {
+            throw new StorageError(
+              `Branch ${data.name} is in use and cannot be deleted`,
+              "BRANCH_IN_USE"
+            );
+          }
+
+          await storage.deleteBranch(data.name);
+          return res.status(200).json({ name: data.name });
+        }
+
         return res.status(405).json({ error: "Method not allowed" });
+      }
 
       default:
         return res.status(400).json({ error: "Invalid action" });
     }
-    } catch (error) {
-      console.error(`Error in Git operation (${action}):`, error);
-      
-      // Special handling for missing GitHub configuration
-      if (error instanceof Error && error.message.includes('GitHub configuration is missing')) {
-        if (action === "status" || action === "branch") {
-          // For status and branch endpoints, return success response with GitHub unconfigured state
-          return res.status(200).json({
-            status: [],
-            github: {
-              configured: false,
-              message: "GitHub integration is not configured. Set GITHUB_TOKEN, GITHUB_REPO, and GITHUB_OWNER in .env.local to enable GitHub features."
-            }
-          });
-        }
-      }
+  } catch (error) {
+    console.error(`Error in Git operation (${action}):`, error);
 
-      // Handle other errors
-      if (error instanceof Error) {
-        if (error.message.includes('authentication') || error.message.includes('401')) {
-          return res.status(401).json({
-            message: "GitHub authentication failed. Please check your GITHUB_TOKEN.",
-            code: "AUTH_ERROR",
-          });
-        }
-        return res.status(500).json({
-          message: error.message,
-          code: "GIT_ERROR",
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Invalid request",
+        code: "INVALID_REQUEST",
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof AuthError) {
+      return res.status(getAuthErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    if (error instanceof StorageError) {
+      return res.status(getStorageErrorStatus(error)).json({
+        message: error.message,
+        code: error.code,
+      });
+    }
+
+    // Handle other errors
+    if (error instanceof Error) {
+      if (error.message.includes('authentication') || error.message.includes('401')) {
+        return res.status(401).json({
+          message: "Git authentication failed. Please check your credentials.",
+          code: "AUTH_ERROR",
         });
       }
       return res.status(500).json({
-        message: "Unknown error occurred",
-        code: "UNKNOWN_ERROR",
+        message: error.message,
+        code: "GIT_ERROR",
       });
+    }
+    return res.status(500).json({
+      message: "Unknown error occurred",
+      code: "UNKNOWN_ERROR",
+    });
   }
 }
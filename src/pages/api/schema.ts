@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import fs from "fs/promises";
+import { z } from "zod";
+import { SchemaRegistry } from "@/services/schemaRegistry";
+import { isValidContentPath } from "@/utils/contentPath";
+import { AuthError, getAuthErrorStatus, requireRole } from "@/services/auth";
+
+const schemaRegistry = new SchemaRegistry();
+
+const SchemaQuerySchema = z.object({
+  path: z
+    .string()
+    .refine((value) => isValidContentPath(value), "Invalid content file path")
+    .optional(),
+});
+
+interface ErrorResponse {
+  error: string;
+  details?: unknown;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ schema: unknown } | { schemas: string[] } | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    requireRole(req, "viewer");
+    const query = SchemaQuerySchema.parse(req.query);
+
+    // Without a path, list the content paths that have a schema
+    if (!query.path) {
+      return res.status(200).json({ schemas: schemaRegistry.listSchemas() });
+    }
+
+    const schemaFile = schemaRegistry.getSchemaFile(query.path);
+
+    if (!schemaFile) {
+      return res.status(200).json({ schema: null });
+    }
+
+    const schema = JSON.parse(await fs.readFile(schemaFile, "utf-8"));
+    return res.status(200).json({ schema });
+
+  } catch (error) {
+    console.error("Failed to load schema:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Invalid request",
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof AuthError) {
+      return res.status(getAuthErrorStatus(error)).json({
+        error: error.message,
+        details: error.code,
+      });
+    }
+
+    return res.status(500).json({
+      error: "Failed to load schema",
+      details: (error as Error).message,
+    });
+  }
+}
@@ -1,8 +1,15 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import type { GetServerSideProps } from "next";
 import dynamic from "next/dynamic";
 import { useEditorStore } from "@/store/editorStore";
 import { FileTree } from "@/components/editor/FileTree";
 import { EditorToolbar } from "@/components/editor/EditorToolbar";
+import { SchemaForm } from "@/components/editor/SchemaForm";
+import { HistoryPanel } from "@/components/editor/HistoryPanel";
+import { ReviewPanel } from "@/components/editor/ReviewPanel";
+import { PreviewPane } from "@/components/editor/PreviewPane";
+import { MergeConflictDialog } from "@/components/editor/MergeConflictDialog";
+import { SaveConflictDialog } from "@/components/editor/SaveConflictDialog";
 
 // Dynamically import Monaco editor to avoid SSR issues
 const MonacoEditor = dynamic(
@@ -10,15 +17,39 @@ const MonacoEditor = dynamic(
   { ssr: false }
 );
 
-export default function EditorPage() {
+interface EditorPageProps {
+  // Site route rendered in the preview pane, from CMS_PREVIEW_URL
+  previewUrl: string | null;
+}
+
+// With authentication enabled, signed-out visitors are sent to the login page
+export const getServerSideProps: GetServerSideProps<EditorPageProps> = async ({ req, resolvedUrl }) => {
+  const { getAuthMode, getSessionUser } = await import("@/services/auth");
+  if (getAuthMode() !== "none" && !getSessionUser(req)) {
+    return {
+      redirect: {
+        destination: `/login?next=${encodeURIComponent(resolvedUrl)}`,
+        permanent: false,
+      },
+    };
+  }
+  return { props: { previewUrl: process.env.CMS_PREVIEW_URL || null } };
+};
+
+export default function EditorPage({ previewUrl }: EditorPageProps) {
   const {
     currentFile,
     content,
     isLoading,
     hasChanges,
     error,
+    schema,
+    viewMode,
+    sidePanel,
     setContent,
+    setViewMode,
   } = useEditorStore();
+  const [showPreview, setShowPreview] = useState(false);
 
   return (
     <div className="flex bg-gray-100 h-screen">
@@ -31,38 +62,95 @@ export default function EditorPage() {
       <div className="flex flex-col flex-1">
         <EditorToolbar />
 
-        <div className="relative flex-1">
-          {isLoading ? (
-            <div className="absolute inset-0 flex justify-center items-center bg-white bg-opacity-75">
-              Loading...
-            </div>
-          ) : currentFile ? (
-            <MonacoEditor
-              height="100%"
-              language="json"
-              theme="vs-light"
-              value={content}
-              onChange={(value) => setContent(value || "")}
-              options={{
-                minimap: { enabled: false },
-                formatOnPaste: true,
-                formatOnType: true,
-                automaticLayout: true,
-              }}
-            />
-          ) : (
-            <div className="flex justify-center items-center h-full text-gray-500">
-              Select a file to edit
-            </div>
-          )}
+        {currentFile && (
+          <div className="flex items-center px-4 bg-white border-b text-sm">
+            {(["form", "json"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                disabled={mode === "form" && !schema}
+                title={mode === "form" && !schema ? "No schema found for this file" : undefined}
+                className={`px-4 py-2 border-b-2 ${
+                  viewMode === mode
+                    ? "border-blue-500 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                } disabled:text-gray-300 disabled:cursor-not-allowed`}
+              >
+                {mode === "form" ? "Form" : "JSON"}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowPreview(!showPreview)}
+              disabled={!previewUrl}
+              title={previewUrl ? undefined : "Set CMS_PREVIEW_URL to enable the preview"}
+              className={`ml-auto px-4 py-2 border-b-2 ${
+                showPreview
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              } disabled:text-gray-300 disabled:cursor-not-allowed`}
+            >
+              Preview
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-1">
+          <div className="relative flex-1">
+            {isLoading ? (
+              <div className="absolute inset-0 flex justify-center items-center bg-white bg-opacity-75">
+                Loading...
+              </div>
+            ) : currentFile && viewMode === "form" ? (
+              <SchemaForm />
+            ) : currentFile ? (
+              <MonacoEditor
+                height="100%"
+                language="json"
+                theme="vs-light"
+                value={content}
+                onChange={(value) => setContent(value || "")}
+                options={{
+                  minimap: { enabled: false },
+                  formatOnPaste: true,
+                  formatOnType: true,
+                  automaticLayout: true,
+                }}
+              />
+            ) : (
+              <div className="flex justify-center items-center h-full text-gray-500">
+                Select a file to edit
+              </div>
+            )}
 
-          {error && (
-            <div className="right-0 bottom-0 left-0 absolute bg-red-100 p-4 text-red-700">
-              {error}
+            {error && (
+              <div className="right-0 bottom-0 left-0 absolute bg-red-100 p-4 text-red-700">
+                {error}
+              </div>
+            )}
+          </div>
+
+          {showPreview && previewUrl && (
+            <div className="w-1/2 bg-white border-l">
+              <PreviewPane route={previewUrl} />
             </div>
           )}
         </div>
       </div>
+
+      {sidePanel === "history" && (
+        <div className="bg-white border-l w-96">
+          <HistoryPanel />
+        </div>
+      )}
+
+      {sidePanel === "review" && (
+        <div className="bg-white border-l w-96">
+          <ReviewPanel />
+        </div>
+      )}
+
+      <MergeConflictDialog />
+      <SaveConflictDialog />
     </div>
   );
 }
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import type { GetServerSideProps } from "next";
+import { useRouter } from "next/router";
+import { getSafeNextPath } from "@/services/auth/redirect";
+import type { AuthMode } from "@/services/auth/types";
+
+interface LoginPageProps {
+  mode: AuthMode;
+  next: string;
+}
+
+export const getServerSideProps: GetServerSideProps<LoginPageProps> = async ({ req, query }) => {
+  const { getAuthMode, getSessionUser } = await import("@/services/auth");
+  const mode = getAuthMode();
+  const next = getSafeNextPath(query.next);
+
+  if (mode === "none" || getSessionUser(req)) {
+    return { redirect: { destination: next, permanent: false } };
+  }
+  return { props: { mode, next } };
+};
+
+export default function LoginPage({ mode, next }: LoginPageProps) {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || "Sign-in failed");
+      }
+      await router.push(next);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-gray-100">
+      <div className="w-full max-w-sm p-6 bg-white rounded-lg shadow">
+        <h1 className="mb-4 text-xl font-semibold">Sign in to JSON CMS</h1>
+
+        {mode === "oidc" ? (
+          <a
+            className="block w-full px-4 py-2 text-center text-white bg-blue-500 rounded-md hover:bg-blue-600"
+            href={`/api/auth/login?next=${encodeURIComponent(next)}`}
+          >
+            Continue with single sign-on
+          </a>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <label className="block mb-3 text-sm">
+              <span className="text-gray-700">Username</span>
+              <input
+                className="w-full px-2 py-1 mt-1 border rounded-md"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+            </label>
+            <label className="block mb-4 text-sm">
+              <span className="text-gray-700">Password</span>
+              <input
+                className="w-full px-2 py-1 mt-1 border rounded-md"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoComplete="current-password"
+              />
+            </label>
+            <button
+              type="submit"
+              className="w-full px-4 py-2 text-white bg-blue-500 rounded-md hover:bg-blue-600 disabled:bg-gray-300"
+              disabled={isLoading || !username || !password}
+            >
+              {isLoading ? "Signing in..." : "Sign in"}
+            </button>
+          </form>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
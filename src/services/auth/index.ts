@@ -0,0 +1,127 @@
+import type { IncomingMessage } from "http";
+import { LocalAuthProvider } from "./local";
+import { OidcAuthProvider } from "./oidc";
+import { getSessionUser } from "./session";
+import { AuthError, AuthMode, AuthProvider, AuthUser, ROLES, Role, hasRole } from "./types";
+
+export * from "./types";
+export { LocalAuthProvider, getUsersFilePath } from "./local";
+export { OidcAuthProvider } from "./oidc";
+export { PathPermissions, getPermissionsFilePath, globToRegExp } from "./permissions";
+export type { PathAccess, PermissionRule } from "./permissions";
+export { hashPassword, verifyPassword } from "./password";
+export { getSafeNextPath } from "./redirect";
+export {
+  appendCookie,
+  createSession,
+  destroySession,
+  getSessionUser,
+  parseCookies,
+  serializeCookie,
+} from "./session";
+
+/**
+ * Resolves the auth mode from `CMS_AUTH`, defaulting to OIDC when
+ * CMS_OIDC_ISSUER is set, local users when CMS_USERS_FILE is set, and no
+ * authentication otherwise.
+ */
+export function getAuthMode(): AuthMode {
+  const mode = process.env.CMS_AUTH;
+  if (mode === "none" || mode === "local" || mode === "oidc") {
+    return mode;
+  }
+  if (mode) {
+    throw new AuthError(
+      `Unknown CMS_AUTH "${mode}". Use "none", "local" or "oidc".`,
+      "CONFIG_ERROR"
+    );
+  }
+
+  if (process.env.CMS_OIDC_ISSUER) {
+    return "oidc";
+  }
+  return process.env.CMS_USERS_FILE ? "local" : "none";
+}
+
+export function getAuthProvider(): AuthProvider {
+  const mode = getAuthMode();
+  if (mode === "local") {
+    return new LocalAuthProvider();
+  }
+  if (mode === "none") {
+    throw new AuthError("Authentication is disabled", "AUTH_DISABLED");
+  }
+
+  const issuer = process.env.CMS_OIDC_ISSUER || "";
+  const clientId = process.env.CMS_OIDC_CLIENT_ID;
+  if (!clientId || (!issuer && !process.env.CMS_OIDC_AUTHORIZATION_URL)) {
+    throw new AuthError(
+      "OIDC configuration is missing. Please set CMS_OIDC_ISSUER and CMS_OIDC_CLIENT_ID.",
+      "CONFIG_ERROR"
+    );
+  }
+
+  const defaultRole = process.env.CMS_OIDC_DEFAULT_ROLE as Role | undefined;
+  return new OidcAuthProvider({
+    issuer,
+    clientId,
+    clientSecret: process.env.CMS_OIDC_CLIENT_SECRET,
+    scope: process.env.CMS_OIDC_SCOPE || "openid profile email",
+    roleClaim: process.env.CMS_OIDC_ROLE_CLAIM || "cms_role",
+    defaultRole: defaultRole && ROLES.includes(defaultRole) ? defaultRole : "viewer",
+    authorizationUrl: process.env.CMS_OIDC_AUTHORIZATION_URL,
+    tokenUrl: process.env.CMS_OIDC_TOKEN_URL,
+    userinfoUrl: process.env.CMS_OIDC_USERINFO_URL,
+  });
+}
+
+/**
+ * Checks that the request comes from a signed-in user with at least `role`.
+ * Returns the user, or null when authentication is disabled; otherwise
+ * throws UNAUTHENTICATED or FORBIDDEN.
+ */
+export function requireRole(req: IncomingMessage, role: Role): AuthUser | null {
+  if (getAuthMode() === "none") {
+    return null;
+  }
+
+  const user = getSessionUser(req);
+  if (!user) {
+    throw new AuthError("Sign in to continue", "UNAUTHENTICATED");
+  }
+  if (!hasRole(user, role)) {
+    throw new AuthError(`This action requires the ${role} role`, "FORBIDDEN");
+  }
+  return user;
+}
+
+/**
+ * Commits are authored as the signed-in user; without authentication the
+ * author sent by the client (if any) is used.
+ */
+export function getCommitAuthor(
+  user: AuthUser | null,
+  requested?: { name: string; email: string }
+): { name: string; email: string } | undefined {
+  return user ? { name: user.name, email: user.email } : requested;
+}
+
+/**
+ * Maps auth error codes to HTTP status codes for the API routes.
+ */
+export function getAuthErrorStatus(error: AuthError): number {
+  switch (error.code) {
+    case "UNAUTHENTICATED":
+    case "INVALID_CREDENTIALS":
+      return 401;
+    case "FORBIDDEN":
+      return 403;
+    case "AUTH_DISABLED":
+    case "INVALID_STATE":
+      return 400;
+    case "OIDC_ERROR":
+      return 502;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,70 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { verifyPassword } from "./password";
+import { AuthError, AuthUser, PasswordAuthProvider, ROLES } from "./types";
+
+const UsersFileSchema = z.object({
+  users: z.array(
+    z.object({
+      username: z.string().min(1),
+      name: z.string().optional(),
+      email: z.string().email(),
+      role: z.enum(ROLES as [string, ...string[]]),
+      passwordHash: z.string().min(1),
+    })
+  ),
+});
+
+export function getUsersFilePath(): string {
+  return process.env.CMS_USERS_FILE || path.join(process.cwd(), ".json-cms", "users.json");
+}
+
+/**
+ * Checks credentials against a JSON users file (`CMS_USERS_FILE`, by default
+ * `.json-cms/users.json`). The file is read on every sign-in, so users can
+ * be added without restarting the server.
+ */
+export class LocalAuthProvider implements PasswordAuthProvider {
+  readonly type = "password";
+
+  constructor(private usersFile: string = getUsersFilePath()) {}
+
+  async authenticate(username: string, password: string): Promise<AuthUser> {
+    const users = await this.loadUsers();
+    const user = users.find((candidate) => candidate.username === username);
+
+    // Unknown users and wrong passwords get the same error
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new AuthError("Invalid username or password", "INVALID_CREDENTIALS");
+    }
+
+    return {
+      id: user.username,
+      name: user.name || user.username,
+      email: user.email,
+      role: user.role as AuthUser["role"],
+    };
+  }
+
+  private async loadUsers() {
+    let content: string;
+    try {
+      content = await fs.readFile(this.usersFile, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new AuthError(`Users file not found: ${this.usersFile}`, "CONFIG_ERROR");
+      }
+      throw error;
+    }
+
+    const parsed = UsersFileSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      throw new AuthError(
+        `Invalid users file ${this.usersFile}: ${parsed.error.errors.map((e) => e.message).join(", ")}`,
+        "CONFIG_ERROR"
+      );
+    }
+    return parsed.data.users;
+  }
+}
@@ -0,0 +1,128 @@
+import { AuthError, AuthUser, RedirectAuthProvider, ROLES, Role } from "./types";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+  // Claim holding the CMS role, and the role for users without one
+  roleClaim: string;
+  defaultRole: Role;
+  // Override discovery, e.g. for a local stand-in without a discovery document
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  userinfoUrl?: string;
+}
+
+interface OidcEndpoints {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+/**
+ * Generic OpenID Connect / OAuth 2.0 authorization code flow. Endpoints are
+ * discovered from `{issuer}/.well-known/openid-configuration` unless all of
+ * them are configured explicitly.
+ */
+export class OidcAuthProvider implements RedirectAuthProvider {
+  readonly type = "redirect";
+  private endpoints: OidcEndpoints | null = null;
+
+  constructor(private config: OidcConfig) {}
+
+  async getAuthorizationUrl(state: string, redirectUri: string): Promise<string> {
+    const endpoints = await this.getEndpoints();
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: redirectUri,
+      scope: this.config.scope,
+      state,
+    });
+    return `${endpoints.authorization_endpoint}?${params}`;
+  }
+
+  async handleCallback(code: string, redirectUri: string): Promise<AuthUser> {
+    const endpoints = await this.getEndpoints();
+
+    const tokenResponse = await fetch(endpoints.token_endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        client_id: this.config.clientId,
+        ...(this.config.clientSecret ? { client_secret: this.config.clientSecret } : {}),
+      }),
+    });
+    if (!tokenResponse.ok) {
+      throw new AuthError(
+        `Token exchange failed: ${tokenResponse.status} ${await tokenResponse.text()}`,
+        "OIDC_ERROR"
+      );
+    }
+    const { access_token: accessToken } = (await tokenResponse.json()) as { access_token?: string };
+    if (!accessToken) {
+      throw new AuthError("Token response did not include an access token", "OIDC_ERROR");
+    }
+
+    const userinfoResponse = await fetch(endpoints.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: "application/json" },
+    });
+    if (!userinfoResponse.ok) {
+      throw new AuthError(`Failed to load user info: ${userinfoResponse.status}`, "OIDC_ERROR");
+    }
+
+    return this.toUser((await userinfoResponse.json()) as Record<string, unknown>);
+  }
+
+  private toUser(claims: Record<string, unknown>): AuthUser {
+    const email = typeof claims.email === "string" ? claims.email : "";
+    const sub = typeof claims.sub === "string" ? claims.sub : email;
+    if (!sub) {
+      throw new AuthError("User info did not include a subject", "OIDC_ERROR");
+    }
+
+    const roleClaim = claims[this.config.roleClaim];
+    const role = ROLES.includes(roleClaim as Role) ? (roleClaim as Role) : this.config.defaultRole;
+    const name = [claims.name, claims.preferred_username, email, sub].find(
+      (value): value is string => typeof value === "string" && value.length > 0
+    )!;
+
+    // Commits need an email, so fall back to a placeholder for the subject
+    return { id: sub, name, email: email || `${sub}@users.noreply`, role };
+  }
+
+  private async getEndpoints(): Promise<OidcEndpoints> {
+    if (this.endpoints) {
+      return this.endpoints;
+    }
+
+    const { authorizationUrl, tokenUrl, userinfoUrl, issuer } = this.config;
+    if (authorizationUrl && tokenUrl && userinfoUrl) {
+      this.endpoints = {
+        authorization_endpoint: authorizationUrl,
+        token_endpoint: tokenUrl,
+        userinfo_endpoint: userinfoUrl,
+      };
+      return this.endpoints;
+    }
+
+    const response = await fetch(`${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new AuthError(`OIDC discovery failed for ${issuer}: ${response.status}`, "CONFIG_ERROR");
+    }
+    const discovered = (await response.json()) as OidcEndpoints;
+    this.endpoints = {
+      authorization_endpoint: authorizationUrl || discovered.authorization_endpoint,
+      token_endpoint: tokenUrl || discovered.token_endpoint,
+      userinfo_endpoint: userinfoUrl || discovered.userinfo_endpoint,
+    };
+    return this.endpoints;
+  }
+}
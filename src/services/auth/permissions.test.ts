@@ -0,0 +1,149 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ContentPathError } from "@/utils/contentPath";
+import { PathPermissions, globToRegExp } from "./permissions";
+import { AuthError, AuthUser, Role } from "./types";
+
+function user(role: Role, id = role): AuthUser {
+  return { id, name: id, email: `${id}@example.com`, role };
+}
+
+describe("globToRegExp", () => {
+  it.each([
+    ["*.json", "home.json", true],
+    ["*.json", "blog/post.json", false],
+    ["blog/*.json", "blog/post.json", true],
+    ["blog/*.json", "blog/2024/post.json", false],
+    ["blog/?.json", "blog/a.json", true],
+    ["blog/?.json", "blog/ab.json", false],
+  ])("matches %s within one segment: %s is %s", (glob, filePath, expected) => {
+    expect(globToRegExp(glob).test(filePath)).toBe(expected);
+  });
+
+  it.each([
+    ["**/*.json", "home.json", true],
+    ["**/*.json", "a/b/c.json", true],
+    ["blog/**", "blog", true],
+    ["blog/**", "blog/2024/post.json", true],
+    ["blog/**", "blogroll.json", false],
+    ["blog/**/draft.json", "blog/draft.json", true],
+    ["blog/**/draft.json", "blog/a/b/draft.json", true],
+    ["blog**", "blog/post.json", true],
+  ])("matches %s across segments: %s is %s", (glob, filePath, expected) => {
+    expect(globToRegExp(glob).test(filePath)).toBe(expected);
+  });
+
+  it("escapes regular expression characters", () => {
+    expect(globToRegExp("a.json").test("abjson")).toBe(false);
+    expect(globToRegExp("(draft)+[1].json").test("(draft)+[1].json")).toBe(true);
+    expect(globToRegExp("(draft)+[1].json").test("draftdraft1.json")).toBe(false);
+    expect(globToRegExp("price$^.json").test("price$^.json")).toBe(true);
+  });
+
+  it("drops a leading ./, / or content directory", () => {
+    for (const glob of ["./blog/*.json", "/blog/*.json", "content/blog/*.json"]) {
+      expect(globToRegExp(glob).test("blog/post.json")).toBe(true);
+    }
+  });
+});
+
+describe("PathPermissions", () => {
+  const permissions = new PathPermissions([
+    { path: "**", write: ["publisher"] },
+    { path: "blog/**", write: ["editor"] },
+    { path: "blog/legal.json", read: ["publisher"], write: ["publisher"] },
+    { path: "landing/*.json", write: ["user:jane"] },
+  ]);
+
+  it("lets the last matching rule decide", () => {
+    expect(permissions.can(user("editor"), "home.json", "write")).toBe(false);
+    expect(permissions.can(user("editor"), "blog/post.json", "write")).toBe(true);
+    expect(permissions.can(user("editor"), "blog/legal.json", "read")).toBe(false);
+    expect(permissions.can(user("publisher"), "blog/legal.json", "write")).toBe(true);
+  });
+
+  it("includes higher roles, named users and read access for writers", () => {
+    expect(permissions.can(user("publisher"), "blog/post.json", "write")).toBe(true);
+    expect(permissions.can(user("viewer", "jane"), "landing/spring.json", "write")).toBe(true);
+    expect(permissions.can(user("viewer", "joe"), "landing/spring.json", "write")).toBe(false);
+    expect(permissions.can(user("viewer"), "home.json", "read")).toBe(true);
+  });
+
+  it("keeps the defaults for paths no rule matches", () => {
+    const empty = new PathPermissions();
+
+    expect(empty.can(user("viewer"), "home.json", "read")).toBe(true);
+    expect(empty.can(user("viewer"), "home.json", "write")).toBe(false);
+    expect(empty.can(user("editor"), "home.json", "write")).toBe(true);
+  });
+
+  it("normalizes paths before matching them", () => {
+    expect(permissions.can(user("editor"), "content/blog/legal.json", "read")).toBe(false);
+    expect(permissions.can(user("editor"), "blog\\legal.json", "read")).toBe(false);
+  });
+
+  it("rejects paths that leave the content directory", () => {
+    expect(() => permissions.can(user("editor"), "blog/../home.json", "write")).toThrow(ContentPathError);
+    expect(() => permissions.can(user("editor"), "../blog/post.json", "read")).toThrow(ContentPathError);
+    expect(() => permissions.assert(user("editor"), "blog/../../x.json", "write")).toThrow();
+  });
+
+  it("throws FORBIDDEN from assert and allows everything without a user", () => {
+    expect(() => permissions.assert(user("viewer"), "blog/post.json", "write")).toThrow(AuthError);
+    expect(permissions.can(null, "blog/legal.json", "write")).toBe(true);
+  });
+
+  it("hides unreadable files and marks unwritable ones read-only", () => {
+    const tree = permissions.filterTree(
+      [
+        {
+          name: "blog",
+          path: "blog",
+          type: "directory",
+          children: [
+            { name: "post.json", path: "blog/post.json", type: "file" },
+            { name: "legal.json", path: "blog/legal.json", type: "file" },
+          ],
+        },
+        { name: "home.json", path: "home.json", type: "file" },
+      ],
+      user("editor")
+    );
+
+    expect(tree).toEqual([
+      {
+        name: "blog",
+        path: "blog",
+        type: "directory",
+        children: [{ name: "post.json", path: "blog/post.json", type: "file" }],
+      },
+      { name: "home.json", path: "home.json", type: "file", readOnly: true },
+    ]);
+  });
+
+  describe("load", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-permissions-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("has no rules without a permissions file", async () => {
+      const loaded = await PathPermissions.load(path.join(dir, "missing.json"));
+
+      expect(loaded.can(user("editor"), "home.json", "write")).toBe(true);
+    });
+
+    it("rejects invalid permissions files", async () => {
+      const file = path.join(dir, "permissions.json");
+      fs.writeFileSync(file, JSON.stringify({ rules: [{ path: "" }] }));
+
+      await expect(PathPermissions.load(file)).rejects.toMatchObject({ code: "CONFIG_ERROR" });
+    });
+  });
+});
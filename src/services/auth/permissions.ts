@@ -0,0 +1,164 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import type { FileNode } from "@/services/storage";
+import { CONTENT_DIR, normalizeContentPath } from "@/utils/contentPath";
+import { AuthError, AuthUser, ROLES, Role, hasRole } from "./types";
+
+export type PathAccess = "read" | "write";
+
+const PermissionsFileSchema = z.object({
+  rules: z.array(
+    z.object({
+      // Glob relative to the content directory, e.g. `marketing/**`
+      path: z.string().min(1),
+      // Roles (including higher roles) or `user:<username or email>`
+      read: z.array(z.string().min(1)).optional(),
+      write: z.array(z.string().min(1)).optional(),
+    })
+  ),
+});
+
+export type PermissionRule = z.infer<typeof PermissionsFileSchema>["rules"][number];
+
+// Access for paths no rule covers, matching the global role checks
+const DEFAULT_ACCESS: Record<PathAccess, string[]> = {
+  read: ["viewer"],
+  write: ["editor"],
+};
+
+export function getPermissionsFilePath(): string {
+  return (
+    process.env.CMS_PERMISSIONS_FILE ||
+    path.join(process.cwd(), ".json-cms", "permissions.json")
+  );
+}
+
+/**
+ * Converts a glob to a regular expression: `*` and `?` stay within one path
+ * segment, `**` spans any number of them, and a trailing `/**` also matches
+ * the folder itself. A leading content directory is dropped, like in paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/^\.?\/+/, "");
+  if (pattern.startsWith(`${CONTENT_DIR}/`)) {
+    pattern = pattern.slice(CONTENT_DIR.length + 1);
+  }
+  let source = "";
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern.charAt(index);
+    if (char === "*" && pattern[index + 1] === "*") {
+      const atSegmentStart = index === 0 || pattern[index - 1] === "/";
+      if (pattern[index + 2] === "/" && atSegmentStart) {
+        source += "(?:.*/)?";
+        index += 2;
+      } else if (index + 2 === pattern.length && index > 0 && atSegmentStart) {
+        // `folder/**`: drop the slash already emitted so `folder` matches too
+        source = source.slice(0, -1) + "(?:/.*)?";
+        index += 1;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function matchesPrincipal(user: AuthUser, principal: string): boolean {
+  if (principal.startsWith("user:")) {
+    const name = principal.slice("user:".length);
+    return name === user.id || name === user.email;
+  }
+  return ROLES.includes(principal as Role) && hasRole(user, principal as Role);
+}
+
+/**
+ * Per-path access rules from the permissions file (`CMS_PERMISSIONS_FILE`,
+ * by default `.json-cms/permissions.json`). The last rule matching a path
+ * decides who may read and write it; write access implies read access.
+ * Rules only apply to signed-in users, so they have no effect when
+ * authentication is disabled.
+ */
+export class PathPermissions {
+  private matchers: Array<{ pattern: RegExp; rule: PermissionRule }>;
+
+  constructor(rules: PermissionRule[] = []) {
+    this.matchers = rules.map((rule) => ({ pattern: globToRegExp(rule.path), rule }));
+  }
+
+  static async load(permissionsFile: string = getPermissionsFilePath()): Promise<PathPermissions> {
+    let content: string;
+    try {
+      content = await fs.readFile(permissionsFile, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new PathPermissions();
+      }
+      throw error;
+    }
+
+    const parsed = PermissionsFileSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      throw new AuthError(
+        `Invalid permissions file ${permissionsFile}: ${parsed.error.errors.map((e) => e.message).join(", ")}`,
+        "CONFIG_ERROR"
+      );
+    }
+    return new PathPermissions(parsed.data.rules);
+  }
+
+  can(user: AuthUser | null, filePath: string, access: PathAccess): boolean {
+    if (!user) {
+      return true;
+    }
+
+    const contentPath = normalizeContentPath(filePath, "any");
+    const rule = [...this.matchers].reverse().find(({ pattern }) => pattern.test(contentPath))?.rule;
+    const writers = rule?.write ?? DEFAULT_ACCESS.write;
+    const principals =
+      access === "write" ? writers : [...(rule?.read ?? DEFAULT_ACCESS.read), ...writers];
+
+    return principals.some((principal) => matchesPrincipal(user, principal));
+  }
+
+  assert(user: AuthUser | null, filePath: string, access: PathAccess): void {
+    if (!this.can(user, filePath, access)) {
+      throw new AuthError(`You do not have ${access} access to ${filePath}`, "FORBIDDEN");
+    }
+  }
+
+  /**
+   * Removes files the user cannot read, and folders left without readable
+   * content, and marks files the user cannot write as read-only.
+   */
+  filterTree(nodes: FileNode[], user: AuthUser | null): FileNode[] {
+    if (!user) {
+      return nodes;
+    }
+
+    return nodes.flatMap((node): FileNode[] => {
+      if (node.type === "file") {
+        if (!this.can(user, node.path, "read")) {
+          return [];
+        }
+        return [this.can(user, node.path, "write") ? node : { ...node, readOnly: true }];
+      }
+
+      const children = this.filterTree(node.children || [], user);
+      const isEmpty = !node.children || node.children.length === 0;
+      if (children.length === 0 && !(isEmpty && this.can(user, node.path, "read"))) {
+        return [];
+      }
+      return [{ ...node, children }];
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { getSafeNextPath } from "./redirect";
+
+describe("getSafeNextPath", () => {
+  it("keeps same-site paths with their query and hash", () => {
+    expect(getSafeNextPath("/editor")).toBe("/editor");
+    expect(getSafeNextPath("/editor?file=home.json#top")).toBe("/editor?file=home.json#top");
+    expect(getSafeNextPath("/posts/../editor")).toBe("/editor");
+  });
+
+  it.each([
+    ["a missing value", undefined],
+    ["a list", ["/editor", "/admin"]],
+    ["a relative path", "editor"],
+    ["an absolute URL", "https://evil.com/editor"],
+    ["a protocol-relative URL", "//evil.com"],
+    ["a backslash", "/\\evil.com"],
+    ["backslashes", "\\\\evil.com"],
+    ["a tab", "/\t/evil.com"],
+    ["a newline", "/\n/evil.com"],
+    ["a javascript URL", "javascript:alert(1)"],
+  ])("falls back to the editor for %s", (_, value) => {
+    expect(getSafeNextPath(value)).toBe("/editor");
+  });
+});
@@ -0,0 +1,30 @@
+// Where to go after signing in. The destination arrives in the `next` query
+// parameter, so it is limited to paths on this site. Plain string handling,
+// used by the login page as well as the API.
+
+const DEFAULT_NEXT_PATH = "/editor";
+
+// Stands in for the site's origin; only the path of `next` is kept
+const SITE_ORIGIN = "http://json-cms.invalid";
+
+/**
+ * Returns `value` as a same-site path, or `/editor` when it is missing or
+ * could lead elsewhere: protocol-relative URLs, backslashes (which browsers
+ * read as slashes), control characters, or anything that resolves to
+ * another origin.
+ */
+export function getSafeNextPath(value: unknown): string {
+  if (typeof value !== "string" || !value.startsWith("/") || /[\\\x00-\x1f\x7f]/.test(value)) {
+    return DEFAULT_NEXT_PATH;
+  }
+
+  try {
+    const url = new URL(value, SITE_ORIGIN);
+    if (url.origin !== SITE_ORIGIN) {
+      return DEFAULT_NEXT_PATH;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return DEFAULT_NEXT_PATH;
+  }
+}
@@ -0,0 +1,52 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { SESSION_COOKIE, createSession, getSessionUser, parseCookies } from "./session";
+
+function request(cookie?: string): IncomingMessage {
+  return { headers: { cookie } } as IncomingMessage;
+}
+
+describe("parseCookies", () => {
+  it("decodes cookie values", () => {
+    expect(parseCookies(request("a=1; b=hello%20world; c=x=y"))).toEqual({
+      a: "1",
+      b: "hello world",
+      c: "x=y",
+    });
+    expect(parseCookies(request())).toEqual({});
+  });
+
+  it("keeps values that are not URI-encoded instead of throwing", () => {
+    expect(parseCookies(request("tracking=100%; cms_branch=main"))).toEqual({
+      tracking: "100%",
+      cms_branch: "main",
+    });
+    expect(parseCookies(request("bad=%E0%A4%A"))).toEqual({ bad: "%E0%A4%A" });
+  });
+});
+
+describe("getSessionUser", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, CMS_AUTH_SECRET: "s".repeat(32) };
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it("reads the session next to a malformed cookie", () => {
+    let cookies: string[] = [];
+    const res = {
+      getHeader: () => cookies,
+      setHeader: (_: string, value: string[]) => {
+        cookies = value;
+      },
+    } as unknown as ServerResponse;
+    const user = { id: "jane", name: "Jane", email: "jane@example.com", role: "editor" as const };
+    createSession(res, user);
+    const session = cookies[0]!.split(";")[0]!.slice(`${SESSION_COOKIE}=`.length);
+
+    expect(getSessionUser(request(`other=%; ${SESSION_COOKIE}=${session}`))).toEqual(user);
+  });
+});
@@ -0,0 +1,124 @@
+import crypto from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { AuthError, AuthUser } from "./types";
+
+export const SESSION_COOKIE = "cms_session";
+
+// Sessions last a working day unless CMS_SESSION_MAX_AGE (seconds) is set
+const DEFAULT_MAX_AGE = 8 * 60 * 60;
+
+interface SessionPayload {
+  user: AuthUser;
+  exp: number;
+}
+
+function getSecret(): string {
+  const secret = process.env.CMS_AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new AuthError(
+      "CMS_AUTH_SECRET must be set to at least 32 characters when authentication is enabled",
+      "CONFIG_ERROR"
+    );
+  }
+  return secret;
+}
+
+function getMaxAge(): number {
+  const maxAge = parseInt(process.env.CMS_SESSION_MAX_AGE || "", 10);
+  return Number.isFinite(maxAge) && maxAge > 0 ? maxAge : DEFAULT_MAX_AGE;
+}
+
+function sign(value: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
+}
+
+// Cookies set by other apps on the same host need not be URI-encoded, so a
+// value that does not decode is kept as it is
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function parseCookies(req: IncomingMessage): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const index = part.indexOf("=");
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeCookieValue(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Builds a Set-Cookie header value. Cookies are HTTP-only and, in
+ * production, only sent over HTTPS.
+ */
+export function serializeCookie(name: string, value: string, maxAge: number): string {
+  const attributes = [
+    `${name}=${encodeURIComponent(value)}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${maxAge}`,
+  ];
+  if (process.env.NODE_ENV === "production") {
+    attributes.push("Secure");
+  }
+  return attributes.join("; ");
+}
+
+export function appendCookie(res: ServerResponse, cookie: string) {
+  const existing = res.getHeader("Set-Cookie");
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+  res.setHeader("Set-Cookie", [...cookies, cookie]);
+}
+
+/**
+ * Stores the user in a signed cookie; nothing is kept on the server.
+ */
+export function createSession(res: ServerResponse, user: AuthUser) {
+  const maxAge = getMaxAge();
+  const payload: SessionPayload = {
+    user,
+    exp: Math.floor(Date.now() / 1000) + maxAge,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  appendCookie(res, serializeCookie(SESSION_COOKIE, `${encoded}.${sign(encoded)}`, maxAge));
+}
+
+export function destroySession(res: ServerResponse) {
+  appendCookie(res, serializeCookie(SESSION_COOKIE, "", 0));
+}
+
+/**
+ * Returns the signed-in user, or null when the session cookie is missing,
+ * tampered with or expired.
+ */
+export function getSessionUser(req: IncomingMessage): AuthUser | null {
+  const cookie = parseCookies(req)[SESSION_COOKIE];
+  if (!cookie) {
+    return null;
+  }
+
+  const [encoded, signature] = cookie.split(".");
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8")) as SessionPayload;
+    return payload.exp > Date.now() / 1000 ? payload.user : null;
+  } catch {
+    return null;
+  }
+}
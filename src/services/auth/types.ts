@@ -0,0 +1,50 @@
+export type Role = "viewer" | "editor" | "publisher";
+
+export const ROLES: Role[] = ["viewer", "editor", "publisher"];
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+// Each role can do everything the roles before it can
+export function hasRole(user: AuthUser, role: Role): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+export type AuthMode = "none" | "local" | "oidc";
+
+// What the client knows about the current session
+export interface AuthSession {
+  mode: AuthMode;
+  user: AuthUser | null;
+}
+
+/**
+ * Signs users in with a username and password checked on the server.
+ */
+export interface PasswordAuthProvider {
+  readonly type: "password";
+  authenticate(username: string, password: string): Promise<AuthUser>;
+}
+
+/**
+ * Signs users in by redirecting to an external identity provider, which
+ * redirects back to `redirectUri` with an authorization code.
+ */
+export interface RedirectAuthProvider {
+  readonly type: "redirect";
+  getAuthorizationUrl(state: string, redirectUri: string): Promise<string>;
+  handleCallback(code: string, redirectUri: string): Promise<AuthUser>;
+}
+
+export type AuthProvider = PasswordAuthProvider | RedirectAuthProvider;
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
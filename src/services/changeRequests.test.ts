@@ -0,0 +1,162 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import git from "isomorphic-git";
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ServerResponse } from "http";
+import { AuthUser, Role, SESSION_COOKIE, createSession } from "@/services/auth";
+import { LocalGitStorage } from "@/services/storage";
+
+const DRAFT = "cms/drafts/jane";
+
+function createUser(id: string, role: Role): AuthUser {
+  return { id, name: id, email: `${id}@example.com`, role };
+}
+
+const jane = createUser("jane", "editor");
+const joe = createUser("joe", "editor");
+const paula = createUser("paula", "publisher");
+const victor = createUser("victor", "viewer");
+
+// The session cookie a signed-in user's browser sends
+function sessionCookie(user: AuthUser): string {
+  let cookies: string[] = [];
+  const res = {
+    getHeader: () => cookies,
+    setHeader: (_: string, value: string[]) => {
+      cookies = value;
+    },
+  } as unknown as ServerResponse;
+  createSession(res, user);
+  return cookies[0]!.split(";")[0]!;
+}
+
+describe("change requests API", () => {
+  let dir: string;
+  const env = process.env;
+  let handler: (req: NextApiRequest, res: NextApiResponse) => Promise<unknown>;
+
+  async function call(user: AuthUser, action: string, body?: object) {
+    const response = { status: 0, body: undefined as any };
+    const res = {
+      status(code: number) {
+        response.status = code;
+        return res;
+      },
+      json(data: unknown) {
+        response.body = data;
+        return res;
+      },
+    } as unknown as NextApiResponse;
+    const req = {
+      method: body ? "POST" : "GET",
+      query: { action },
+      body,
+      headers: { cookie: sessionCookie(user) },
+    } as unknown as NextApiRequest;
+    await handler(req, res);
+    return response;
+  }
+
+  // Commits an edit to jane's draft branch, as saving and committing would
+  async function commitDraft(content: string) {
+    const storage = new LocalGitStorage(dir, { branch: DRAFT, baseBranch: "main" });
+    await storage.writeFile("home.json", content);
+    await storage.commit("Edit home", jane);
+  }
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "json-cms-change-requests-"));
+    await git.init({ fs, dir, defaultBranch: "main" });
+    await fs.promises.mkdir(path.join(dir, "content"));
+    await fs.promises.writeFile(path.join(dir, "content", "home.json"), '{"title":"Home"}');
+    await git.add({ fs, dir, filepath: "content/home.json" });
+    await git.commit({ fs, dir, message: "Initial commit", author: paula });
+
+    jest.spyOn(process, "cwd").mockReturnValue(dir);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    process.env = {
+      NODE_ENV: "test",
+      CMS_STORAGE: "local",
+      CMS_WORKFLOW: "editorial",
+      CMS_AUTH: "local",
+      CMS_AUTH_SECRET: "s".repeat(32),
+      CMS_PUBLISH_BRANCH: "main",
+    };
+    // The route keeps its store in the working directory it was loaded in
+    jest.isolateModules(() => {
+      handler = require("@/pages/api/change-requests/[action]").default;
+    });
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    jest.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("commits saved changes when a request is opened", async () => {
+    await new LocalGitStorage(dir, { branch: DRAFT, baseBranch: "main" }).writeFile(
+      "home.json",
+      '{"title":"Draft"}'
+    );
+
+    const { status, body } = await call(jane, "open", { title: "New home" });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      id: "1",
+      sourceBranch: DRAFT,
+      targetBranch: "main",
+      author: { email: jane.email },
+    });
+    const [head] = await git.log({ fs, dir, ref: DRAFT, depth: 1 });
+    expect(head!.commit.message.trim()).toBe("New home");
+  });
+
+  it("rejects requests without changes and viewers", async () => {
+    expect((await call(jane, "open", { title: "Nothing" })).body).toMatchObject({
+      code: "NOTHING_TO_COMMIT",
+    });
+    expect((await call(victor, "open", { title: "Viewer" })).status).toBe(403);
+  });
+
+  it("merges a request once it is approved", async () => {
+    await commitDraft('{"title":"Draft"}');
+    await call(jane, "open", { title: "New home" });
+
+    expect((await call(paula, "merge", { id: "1" })).body).toMatchObject({ code: "NOT_APPROVED" });
+    expect((await call(jane, "approve", { id: "1" })).status).toBe(403);
+    expect((await call(paula, "approve", { id: "1" })).body.approvals).toEqual([
+      expect.objectContaining({ email: paula.email }),
+    ]);
+
+    const { status, body } = await call(paula, "merge", { id: "1" });
+    expect(status).toBe(200);
+    expect(body.state).toBe("merged");
+    expect(await new LocalGitStorage(dir).readFile("home.json", "main")).toBe('{"title":"Draft"}');
+  });
+
+  it("drops approvals when the source branch changes", async () => {
+    await commitDraft('{"title":"Draft"}');
+    await call(jane, "open", { title: "New home" });
+    await call(paula, "approve", { id: "1" });
+
+    await commitDraft('{"title":"Changed after review"}');
+
+    const { body } = await call(paula, "list");
+    expect(body.changeRequests).toEqual([
+      expect.objectContaining({ id: "1", approvals: [], files: ["home.json"] }),
+    ]);
+    expect((await call(paula, "merge", { id: "1" })).body).toMatchObject({ code: "NOT_APPROVED" });
+  });
+
+  it("lets only the author or a publisher close a request", async () => {
+    await commitDraft('{"title":"Draft"}');
+    await call(jane, "open", { title: "New home" });
+
+    expect((await call(joe, "close", { id: "1" })).status).toBe(403);
+    expect((await call(jane, "close", { id: "1" })).body.state).toBe("closed");
+    expect((await call(paula, "approve", { id: "1" })).body).toMatchObject({ code: "CONFLICT" });
+  });
+});
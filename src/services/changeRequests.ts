@@ -0,0 +1,51 @@
+import path from "path";
+import { readJsonFile, withFileLock, writeJsonFile } from "@/services/jsonFile";
+import type { ChangeRequest } from "@/services/storage";
+
+/**
+ * Change requests and their approvals, kept on disk next to the staging
+ * area. With GitHub storage each one mirrors a pull request; in local mode
+ * this is the only record of them.
+ */
+export class ChangeRequestStore {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath =
+      filePath || path.join(process.cwd(), ".json-cms", "change-requests.json");
+  }
+
+  // Newest first
+  async list(): Promise<ChangeRequest[]> {
+    const requests = await this.read();
+    return Object.values(requests).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<ChangeRequest | undefined> {
+    const requests = await this.read();
+    return requests[id];
+  }
+
+  /**
+   * Saves a change request. Requests without an id (no pull request number)
+   * get the next free number, assigned under the same lock as the write.
+   */
+  async save(request: ChangeRequest): Promise<ChangeRequest> {
+    return withFileLock(this.filePath, async () => {
+      const requests = await this.read();
+      const saved = request.id ? request : { ...request, id: this.nextId(requests) };
+      requests[saved.id] = saved;
+      await writeJsonFile(this.filePath, requests);
+      return saved;
+    });
+  }
+
+  private nextId(requests: Record<string, ChangeRequest>): string {
+    const ids = Object.keys(requests).map(Number).filter(Number.isInteger);
+    return String(Math.max(0, ...ids) + 1);
+  }
+
+  private read(): Promise<Record<string, ChangeRequest>> {
+    return readJsonFile(this.filePath, {});
+  }
+}
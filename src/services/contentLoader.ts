@@ -0,0 +1,62 @@
+import fs from "fs";
+import path from "path";
+import { normalizeContentPath } from "../utils/contentPath";
+import { ValidationError, ValidationService } from "./validation";
+
+// Reads content files for site pages, validating them against their schema
+// so invalid content fails the build instead of rendering. This module is
+// part of the package entry used by generated code, so it uses relative
+// imports.
+
+const SCHEMA_SUFFIX = ".schema.json";
+
+export interface ContentLoaderOptions {
+  // Defaults to `content` in the working directory
+  contentDir?: string;
+  // Defaults to `schema` inside the content directory
+  schemaDir?: string;
+}
+
+/**
+ * Loads content by name, e.g. `blog` for `content/blog.json`. `TContent`
+ * maps names to their types; `next-json-cms generate` writes it from the
+ * schemas together with a typed `getContent` function.
+ */
+export class ContentLoader<TContent extends object = Record<string, unknown>> {
+  private contentDir: string;
+  private schemaDir: string;
+
+  constructor(options: ContentLoaderOptions = {}) {
+    this.contentDir = path.resolve(options.contentDir || "content");
+    this.schemaDir = path.resolve(options.schemaDir || path.join(this.contentDir, "schema"));
+  }
+
+  async getContent<K extends keyof TContent & string>(name: K): Promise<TContent[K]> {
+    const key = normalizeContentPath(`${name}.json`);
+    const content = await fs.promises.readFile(path.join(this.contentDir, key), "utf-8");
+
+    // Schemas are read on every call so edits apply without a restart
+    const validationService = new ValidationService();
+    const schemaFile = path.join(this.schemaDir, key.slice(0, -".json".length) + SCHEMA_SUFFIX);
+    if (fs.existsSync(schemaFile)) {
+      validationService.registerSchema(
+        key,
+        validationService.loadSchemaFromJson(await fs.promises.readFile(schemaFile, "utf-8"))
+      );
+    }
+
+    try {
+      await validationService.validateJson(key, content);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        const issues = error.errors
+          .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+          .join("; ");
+        throw new ValidationError(`${key}: ${error.message} (${issues})`, error.errors);
+      }
+      throw error;
+    }
+
+    return JSON.parse(content) as TContent[K];
+  }
+}
@@ -3,18 +3,21 @@ import path from "path";
 import git from "isomorphic-git";
 import http from "isomorphic-git/http/node";
 import { z } from "zod";
+import type { JsonSchema } from "@/utils/jsonSchema";
+import { normalizeContentPath } from "@/utils/contentPath";
+import type { AuthSession } from "@/services/auth/types";
+import type { BranchInfo, ChangeRequest } from "@/services/storage/types";
 
 // Type definitions
 const GitConfigSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
   remote: z.string().default("origin"),
-  branch: z.string().default("main"),
 });
 
 type GitConfig = z.infer<typeof GitConfigSchema>;
 
-interface GitCommit {
+export interface GitCommit {
   oid: string;
   commit: {
     message: string;
@@ -28,7 +31,48 @@ interface GitCommit {
   };
 }
 
-type StatusMatrix = Array<[string, number, number, number]>;
+export type StatusMatrix = Array<[string, number, number, number]>;
+
+// A saved file changed both locally and remotely that needs manual merging
+export interface FileConflict {
+  path: string;
+  base: string | null;
+  local: string;
+  remote: string | null;
+}
+
+// File content together with the version token used to detect concurrent edits
+export interface VersionedFile {
+  content: string;
+  version: string;
+  // Set when path permissions do not allow the current user to save the file
+  readOnly?: boolean;
+  // Set when the file's schema failed to load on the server
+  schemaError?: string;
+}
+
+export interface BranchState {
+  // The branch being edited, e.g. the user's draft branch
+  branch: string;
+  publishBranch: string;
+  workflow: "direct" | "editorial";
+  // Whether the user may commit to the branch, e.g. an editor to their draft
+  canCommit: boolean;
+  branches: BranchInfo[];
+}
+
+export interface ChangeRequestList {
+  // Open requests include the content files they change
+  changeRequests: Array<ChangeRequest & { files?: string[] }>;
+  requiredApprovals: number;
+}
+
+export interface PullResult {
+  head: string;
+  branch: string;
+  merged?: string[];
+  conflicts?: FileConflict[];
+}
 
 export class GitError extends Error {
   constructor(message: string, public readonly code: string) {
@@ -48,7 +92,6 @@ export class GitService {
       name: "JSON CMS",
       email: "json-cms@example.com",
       remote: "origin",
-      branch: "main",
       ...config,
     });
   }
@@ -67,26 +110,31 @@ export class GitService {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: "Unknown error" }));
-      throw new GitError(error.message || response.statusText, error.code || response.status.toString());
+      throw new GitError(
+        error.message || error.error || response.statusText,
+        error.code || response.status.toString()
+      );
     }
 
     return response.json();
   }
 
+  // Rejects paths outside the content directory before they reach the API
   private ensureContentPath(filePath: string): string {
-    // Remove any existing content/ prefix and leading slashes
-    const cleanPath = filePath.replace(/^content\//, "").replace(/^\/+/, "");
-    // Return path ensuring it's within content directory
-    return cleanPath;
+    return normalizeContentPath(filePath);
   }
 
-  async readFile(filePath: string): Promise<string> {
+  async readFile(filePath: string, ref?: string): Promise<string> {
+    return (await this.readVersionedFile(filePath, ref)).content;
+  }
+
+  async readVersionedFile(filePath: string, ref?: string): Promise<VersionedFile> {
     try {
       const contentPath = this.ensureContentPath(filePath);
-      const data = await this.handleRequest<{ content: string }>(
-        `/file?path=${encodeURIComponent(contentPath)}`
+      const refQuery = ref ? `&ref=${encodeURIComponent(ref)}` : "";
+      return await this.handleRequest<VersionedFile>(
+        `/file?path=${encodeURIComponent(contentPath)}${refQuery}`
       );
-      return data.content;
     } catch (error) {
       throw new GitError(
         `Failed to read file ${filePath}: ${(error as Error).message}`,
@@ -95,14 +143,41 @@ export class GitService {
     }
   }
 
-  async saveFile(filePath: string, content: string): Promise<void> {
+  async getSchema(filePath: string): Promise<JsonSchema | null> {
+    try {
+      const contentPath = this.ensureContentPath(filePath);
+      const data = await this.handleRequest<{ schema: JsonSchema | null }>(
+        `/schema?path=${encodeURIComponent(contentPath)}`
+      );
+      return data.schema;
+    } catch (error) {
+      throw new GitError(
+        `Failed to load schema for ${filePath}: ${(error as Error).message}`,
+        "SCHEMA_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Saves a file and returns its new version. Passing the version the file
+   * was loaded with makes the save fail with a CONFLICT error if the file has
+   * changed since; without it the file is overwritten.
+   */
+  async saveFile(filePath: string, content: string, version?: string): Promise<string> {
     try {
       const contentPath = this.ensureContentPath(filePath);
-      await this.handleRequest("/file", {
+      const data = await this.handleRequest<VersionedFile>("/file", {
         method: "POST",
-        body: JSON.stringify({ path: contentPath, content }),
+        body: JSON.stringify({ path: contentPath, content, version }),
       });
+      return data.version;
     } catch (error) {
+      if ((error as GitError).code === "CONFLICT") {
+        throw new GitError(
+          `${filePath} was changed remotely since it was loaded`,
+          "CONFLICT"
+        );
+      }
       throw new GitError(
         `Failed to save file ${filePath}: ${(error as Error).message}`,
         "SAVE_ERROR"
@@ -114,7 +189,10 @@ export class GitService {
     try {
       const data = await this.handleRequest<{ commitId: string }>("/git/commit", {
         method: "POST",
-        body: JSON.stringify({ message }),
+        body: JSON.stringify({
+          message,
+          author: { name: this.config.name, email: this.config.email },
+        }),
       });
       return data.commitId;
     } catch (error) {
@@ -141,10 +219,7 @@ export class GitService {
     try {
       await this.handleRequest("/git/push", {
         method: "POST",
-        body: JSON.stringify({
-          remote: this.config.remote,
-          branch: this.config.branch,
-        }),
+        body: JSON.stringify({ remote: this.config.remote }),
       });
     } catch (error) {
       const err = error as GitError;
@@ -161,13 +236,13 @@ export class GitService {
     }
   }
 
-  async pull(): Promise<void> {
+  async pull(): Promise<PullResult> {
     try {
-      await this.handleRequest("/git/pull", {
+      return await this.handleRequest<PullResult>("/git/pull", {
         method: "POST",
         body: JSON.stringify({
           remote: this.config.remote,
-          branch: this.config.branch,
+          author: { name: this.config.name, email: this.config.email },
         }),
       });
     } catch (error) {
@@ -185,10 +260,13 @@ export class GitService {
     }
   }
 
-  async resolveConflicts(filePath: string, content: string): Promise<void> {
+  /**
+   * Saves the merged content of a conflicted file. The resolution is then
+   * committed together with the user's other saved changes.
+   */
+  async resolveConflicts(filePath: string, content: string): Promise<string> {
     try {
-      await this.saveFile(filePath, content);
-      await this.commitChanges(`Resolve conflicts in ${filePath}`);
+      return await this.saveFile(filePath, content);
     } catch (error) {
       throw new GitError(
         `Failed to resolve conflicts: ${(error as Error).message}`,
@@ -211,6 +289,186 @@ export class GitService {
     }
   }
 
+  async restoreFile(filePath: string, ref: string): Promise<string> {
+    try {
+      const data = await this.handleRequest<{ commitId: string }>("/git/restore", {
+        method: "POST",
+        body: JSON.stringify({
+          path: filePath,
+          ref,
+          author: { name: this.config.name, email: this.config.email },
+        }),
+      });
+      return data.commitId;
+    } catch (error) {
+      throw new GitError(
+        `Failed to restore ${filePath}: ${(error as Error).message}`,
+        "RESTORE_ERROR"
+      );
+    }
+  }
+
+  async getSession(): Promise<AuthSession> {
+    return this.handleRequest<AuthSession>("/auth/session");
+  }
+
+  async logout(): Promise<void> {
+    await this.handleRequest("/auth/logout", { method: "POST" });
+  }
+
+  /**
+   * Content paths whose schema can be used as a template for new files.
+   */
+  async listTemplates(): Promise<string[]> {
+    try {
+      const data = await this.handleRequest<{ schemas: string[] }>("/schema");
+      return data.schemas;
+    } catch (error) {
+      throw new GitError(
+        `Failed to list templates: ${(error as Error).message}`,
+        "SCHEMA_ERROR"
+      );
+    }
+  }
+
+  async createFile(filePath: string, template?: string): Promise<string> {
+    return this.fileOperation("create", { path: filePath, template }, `create ${filePath}`);
+  }
+
+  async createFolder(folderPath: string): Promise<string> {
+    return this.fileOperation("mkdir", { path: folderPath }, `create folder ${folderPath}`);
+  }
+
+  async renamePath(from: string, to: string): Promise<string> {
+    return this.fileOperation("rename", { from, to }, `rename ${from}`);
+  }
+
+  async duplicateFile(from: string, to: string): Promise<string> {
+    return this.fileOperation("duplicate", { from, to }, `duplicate ${from}`);
+  }
+
+  async deletePath(filePath: string): Promise<string> {
+    return this.fileOperation("delete", { path: filePath }, `delete ${filePath}`);
+  }
+
+  // Each file operation is committed on its own; returns the commit id
+  private async fileOperation(
+    action: string,
+    body: Record<string, string | undefined>,
+    description: string
+  ): Promise<string> {
+    try {
+      const data = await this.handleRequest<{ commitId: string }>(`/files/${action}`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...body,
+          author: { name: this.config.name, email: this.config.email },
+        }),
+      });
+      return data.commitId;
+    } catch (error) {
+      throw new GitError(
+        `Failed to ${description}: ${(error as Error).message}`,
+        (error as GitError).code || "FILE_OPERATION_ERROR"
+      );
+    }
+  }
+
+  async getBranchState(): Promise<BranchState> {
+    try {
+      return await this.handleRequest<BranchState>("/git/branch");
+    } catch (error) {
+      throw new GitError(
+        `Failed to load branches: ${(error as Error).message}`,
+        "BRANCH_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Selects the branch edited in this browser session; null goes back to
+   * the default branch.
+   */
+  async switchBranch(name: string | null): Promise<BranchState> {
+    try {
+      return await this.handleRequest<BranchState>("/git/branch", {
+        method: "PUT",
+        body: JSON.stringify({ name }),
+      });
+    } catch (error) {
+      throw new GitError(
+        `Failed to switch branch: ${(error as Error).message}`,
+        "BRANCH_ERROR"
+      );
+    }
+  }
+
+  async createBranch(name: string, from?: string): Promise<void> {
+    try {
+      await this.handleRequest("/git/branch", {
+        method: "POST",
+        body: JSON.stringify({ name, from }),
+      });
+    } catch (error) {
+      throw new GitError(
+        `Failed to create branch: ${(error as Error).message}`,
+        "BRANCH_ERROR"
+      );
+    }
+  }
+
+  async listChangeRequests(): Promise<ChangeRequestList> {
+    try {
+      return await this.handleRequest<ChangeRequestList>("/change-requests/list");
+    } catch (error) {
+      throw new GitError(
+        `Failed to load change requests: ${(error as Error).message}`,
+        "CHANGE_REQUEST_ERROR"
+      );
+    }
+  }
+
+  /**
+   * Asks for the committed changes on the current draft branch to be
+   * reviewed and merged into the publish branch.
+   */
+  async openChangeRequest(title: string, description: string): Promise<ChangeRequest> {
+    return this.changeRequestAction("open", { title, description }, "request a review");
+  }
+
+  async approveChangeRequest(id: string): Promise<ChangeRequest> {
+    return this.changeRequestAction("approve", { id }, `approve #${id}`);
+  }
+
+  async mergeChangeRequest(id: string): Promise<ChangeRequest> {
+    return this.changeRequestAction("merge", { id }, `merge #${id}`);
+  }
+
+  async closeChangeRequest(id: string): Promise<ChangeRequest> {
+    return this.changeRequestAction("close", { id }, `close #${id}`);
+  }
+
+  private async changeRequestAction(
+    action: string,
+    body: Record<string, string>,
+    description: string
+  ): Promise<ChangeRequest> {
+    try {
+      return await this.handleRequest<ChangeRequest>(`/change-requests/${action}`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...body,
+          author: { name: this.config.name, email: this.config.email },
+        }),
+      });
+    } catch (error) {
+      throw new GitError(
+        `Failed to ${description}: ${(error as Error).message}`,
+        (error as GitError).code || "CHANGE_REQUEST_ERROR"
+      );
+    }
+  }
+
   async revertChanges(filePath: string): Promise<void> {
     try {
       await this.handleRequest("/git/revert", {
@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+type FileLocks = Map<string, Promise<unknown>>;
+
+// API routes are bundled separately by Next.js, so the locks are kept on
+// globalThis where every copy of this module in the process finds them
+const FILE_LOCKS = Symbol.for("next-json-cms.fileLocks");
+
+function getFileLocks(): FileLocks {
+  const scope = globalThis as unknown as Record<symbol, FileLocks | undefined>;
+  return (scope[FILE_LOCKS] ??= new Map());
+}
+
+/**
+ * Runs `task` after every earlier task for the same file has settled, so
+ * read-modify-write cycles on a JSON file never interleave within the
+ * server process.
+ */
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const locks = getFileLocks();
+  const result = (locks.get(filePath) || Promise.resolve()).then(task, task);
+  const settled = result.catch(() => undefined);
+  locks.set(filePath, settled);
+
+  try {
+    return await result;
+  } finally {
+    if (locks.get(filePath) === settled) {
+      locks.delete(filePath);
+    }
+  }
+}
+
+// The parsed file, or `fallback` when it does not exist yet
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes through a temporary file so a crash never leaves partial JSON. The
+ * temporary name is unique per write, so concurrent writers never share it.
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SchemaRegistry } from "./schemaRegistry";
+import { ValidationError } from "./validation";
+
+describe("SchemaRegistry", () => {
+  let dir: string;
+  let contentDir: string;
+
+  function writeSchema(name: string, schema: string) {
+    fs.mkdirSync(path.join(contentDir, "schema"), { recursive: true });
+    fs.writeFileSync(path.join(contentDir, "schema", name), schema);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-cms-schemas-"));
+    contentDir = path.join(dir, "content");
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("validates content files against their schema", async () => {
+    writeSchema("home.schema.json", JSON.stringify({
+      type: "object",
+      properties: { title: { type: "string" } },
+      required: ["title"],
+    }));
+    const registry = new SchemaRegistry({ contentDir });
+
+    await expect(registry.validateJson("content/home.json", '{"title":"Home"}')).resolves.toBe(true);
+    await expect(registry.validateJson("home.json", "{}")).rejects.toThrow(ValidationError);
+  });
+
+  it("reports schemas that fail to load and rejects their files", async () => {
+    writeSchema("home.schema.json", "{ not json");
+    const registry = new SchemaRegistry({ contentDir });
+
+    expect(registry.getLoadError("content/home.json")).toMatchObject({ contentPath: "home.json" });
+    expect(registry.getLoadError("about.json")).toBeUndefined();
+    await expect(registry.validateJson("home.json", "{}")).rejects.toThrow(
+      "Schema could not be loaded"
+    );
+    await expect(registry.validateJson("about.json", "{}")).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { ValidationError, ValidationService } from "@/services/validation";
+import { CONTENT_DIR } from "@/services/storage/utils";
+
+const SCHEMA_SUFFIX = ".schema.json";
+
+export interface SchemaLoadError {
+  schemaFile: string;
+  // The content path the schema would apply to, e.g. `blog.json`
+  contentPath: string;
+  message: string;
+}
+
+interface SchemaRegistryOptions {
+  contentDir?: string;
+  schemaDir?: string;
+}
+
+/**
+ * Discovers `{name}.schema.json` files under the schema directory and
+ * registers each one for the matching `{name}.json` content file.
+ *
+ * Schema files are re-scanned on access: when any schema file is added,
+ * removed or modified the registry rebuilds its ValidationService, so edits
+ * to schemas apply without restarting the server.
+ */
+export class SchemaRegistry {
+  private contentDir: string;
+  private schemaDir: string;
+  private validationService = new ValidationService();
+  private schemaFiles: Map<string, string> = new Map();
+  private loadErrors: SchemaLoadError[] = [];
+  private signature: string | null = null;
+
+  constructor(options: SchemaRegistryOptions = {}) {
+    this.contentDir =
+      options.contentDir || path.join(process.cwd(), CONTENT_DIR);
+    this.schemaDir =
+      options.schemaDir || path.join(this.contentDir, "schema");
+  }
+
+  getValidationService(): ValidationService {
+    this.reloadIfChanged();
+    return this.validationService;
+  }
+
+  /**
+   * Validates against the file's schema. A file whose schema failed to load
+   * is rejected rather than saved unchecked.
+   */
+  async validateJson(filePath: string, content: string): Promise<boolean> {
+    const loadError = this.getLoadError(filePath);
+    if (loadError) {
+      throw new ValidationError("Schema could not be loaded", [{
+        code: z.ZodIssueCode.custom,
+        path: [],
+        message: `${path.basename(loadError.schemaFile)}: ${loadError.message}`,
+      }]);
+    }
+
+    return this.getValidationService().validateJson(
+      this.toContentKey(filePath),
+      content
+    );
+  }
+
+  /**
+   * Returns the schema file registered for a content path, if any.
+   */
+  getSchemaFile(filePath: string): string | undefined {
+    this.reloadIfChanged();
+    return this.schemaFiles.get(this.toContentKey(filePath));
+  }
+
+  /**
+   * Content paths that have a schema, e.g. `blog.json`.
+   */
+  listSchemas(): string[] {
+    this.reloadIfChanged();
+    return Array.from(this.schemaFiles.keys());
+  }
+
+  getLoadErrors(): SchemaLoadError[] {
+    this.reloadIfChanged();
+    return this.loadErrors;
+  }
+
+  /**
+   * The error of the schema for a content path that failed to load, if any.
+   */
+  getLoadError(filePath: string): SchemaLoadError | undefined {
+    const contentKey = this.toContentKey(filePath);
+    return this.getLoadErrors().find((error) => error.contentPath === contentKey);
+  }
+
+  /**
+   * Normalizes a content path (with or without a `content/` prefix or
+   * leading slash) to the POSIX path relative to the content directory.
+   */
+  toContentKey(filePath: string): string {
+    const contentRoot = path.basename(this.contentDir);
+    return filePath
+      .replace(/\\/g, "/")
+      .replace(/^\/+/, "")
+      .replace(new RegExp(`^${contentRoot}/`), "");
+  }
+
+  private reloadIfChanged(): void {
+    const files = this.findSchemaFiles(this.schemaDir);
+    const signature = files
+      .map((file) => {
+        const stats = fs.statSync(file);
+        return `${file}:${stats.mtimeMs}:${stats.size}`;
+      })
+      .join("|");
+
+    if (signature === this.signature) {
+      return;
+    }
+
+    this.load(files);
+    this.signature = signature;
+  }
+
+  private load(files: string[]): void {
+    const validationService = new ValidationService();
+    const schemaFiles = new Map<string, string>();
+    const loadErrors: SchemaLoadError[] = [];
+
+    for (const file of files) {
+      const relativeSchema = path
+        .relative(this.schemaDir, file)
+        .split(path.sep)
+        .join("/");
+      const contentKey =
+        relativeSchema.slice(0, -SCHEMA_SUFFIX.length) + ".json";
+
+      try {
+        const schema = validationService.loadSchemaFromJson(
+          fs.readFileSync(file, "utf-8")
+        );
+        validationService.registerSchema(contentKey, schema);
+        schemaFiles.set(contentKey, file);
+      } catch (error) {
+        console.error(`Failed to load schema ${file}:`, error);
+        loadErrors.push({
+          schemaFile: file,
+          contentPath: contentKey,
+          message: (error as Error).message,
+        });
+      }
+    }
+
+    this.validationService = validationService;
+    this.schemaFiles = schemaFiles;
+    this.loadErrors = loadErrors;
+  }
+
+  private findSchemaFiles(dir: string): string[] {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.findSchemaFiles(entryPath));
+      } else if (entry.name.endsWith(SCHEMA_SUFFIX)) {
+        files.push(entryPath);
+      }
+    }
+
+    return files.sort();
+  }
+}
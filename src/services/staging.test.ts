@@ -0,0 +1,51 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { StagingArea } from "./staging";
+
+describe("StagingArea", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "json-cms-staging-"));
+    filePath = path.join(dir, ".json-cms", "staging.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps every file of concurrent saves", async () => {
+    // Two instances, like two API routes sharing the staging file
+    const first = new StagingArea(filePath);
+    const second = new StagingArea(filePath);
+    const paths = Array.from({ length: 20 }, (_, index) => `content/page-${index}.json`);
+
+    await Promise.all(
+      paths.map((file, index) => (index % 2 ? first : second).stage(file, "{}"))
+    );
+
+    expect((await first.list()).map((file) => file.path).sort()).toEqual([...paths].sort());
+    expect((await fs.readdir(path.dirname(filePath))).filter((name) => name.endsWith(".tmp"))).toEqual([]);
+  });
+
+  it("keeps the base sha of the first edit", async () => {
+    const staging = new StagingArea(filePath);
+    await staging.stage("content/home.json", '{"a":1}', "abc123");
+    await staging.stage("content/home.json", '{"a":2}');
+
+    expect(await staging.get("content/home.json")).toMatchObject({ content: '{"a":2}', baseSha: "abc123" });
+  });
+
+  it("unstages files", async () => {
+    const staging = new StagingArea(filePath);
+    await Promise.all([
+      staging.stage("content/home.json", "{}"),
+      staging.stage("content/about.json", "{}"),
+    ]);
+    await staging.unstage(["content/home.json"]);
+
+    expect((await staging.list()).map((file) => file.path)).toEqual(["content/about.json"]);
+  });
+});
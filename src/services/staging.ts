@@ -0,0 +1,75 @@
+import path from "path";
+import { readJsonFile, withFileLock, writeJsonFile } from "@/services/jsonFile";
+
+export interface StagedFile {
+  path: string;
+  content: string;
+  stagedAt: number;
+  // Blob sha of the committed file the edit started from, null for new files
+  baseSha: string | null;
+}
+
+// Staged edits of branches other than GITHUB_BRANCH are kept per branch
+export function getStagingFilePath(branch: string): string {
+  return path.join(process.cwd(), ".json-cms", "staging", `${encodeURIComponent(branch)}.json`);
+}
+
+/**
+ * Saved-but-uncommitted edits, kept on disk so every API route (each of which
+ * is bundled separately by Next.js) sees the same set of changes and a
+ * server restart does not lose them.
+ */
+export class StagingArea {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath =
+      filePath || path.join(process.cwd(), ".json-cms", "staging.json");
+  }
+
+  async list(): Promise<StagedFile[]> {
+    const files = await this.read();
+    return Object.values(files).sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async get(filePath: string): Promise<StagedFile | undefined> {
+    const files = await this.read();
+    return files[filePath];
+  }
+
+  /**
+   * Stages content for a file. `baseSha` is only recorded the first time a
+   * file is staged unless it is passed explicitly, e.g. after a merge.
+   */
+  async stage(filePath: string, content: string, baseSha?: string | null): Promise<void> {
+    await this.update((files) => {
+      files[filePath] = {
+        path: filePath,
+        content,
+        stagedAt: Date.now(),
+        baseSha: baseSha !== undefined ? baseSha : files[filePath]?.baseSha ?? null,
+      };
+    });
+  }
+
+  async unstage(filePaths: string[]): Promise<void> {
+    await this.update((files) => {
+      for (const filePath of filePaths) {
+        delete files[filePath];
+      }
+    });
+  }
+
+  private read(): Promise<Record<string, StagedFile>> {
+    return readJsonFile(this.filePath, {});
+  }
+
+  // Saves run one at a time, so concurrent saves never drop each other's files
+  private update(change: (files: Record<string, StagedFile>) => void): Promise<void> {
+    return withFileLock(this.filePath, async () => {
+      const files = await this.read();
+      change(files);
+      await writeJsonFile(this.filePath, files);
+    });
+  }
+}
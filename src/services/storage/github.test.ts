@@ -0,0 +1,381 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { StagingArea } from "@/services/staging";
+import { GitHubStorage } from "./github";
+import { StorageError } from "./types";
+import { getBlobSha } from "./utils";
+
+interface FakeCommit {
+  message: string;
+  tree: string;
+  parents: string[];
+  author: { name: string; email: string; date: string };
+}
+
+const AUTHOR = { name: "Jane", email: "jane@example.com" };
+
+/**
+ * An in-memory repository behind the parts of the GitHub REST API that
+ * GitHubStorage uses. Trees are flat maps of repository paths to blob shas.
+ */
+class FakeGitHub {
+  branches = new Map<string, string>();
+  commits = new Map<string, FakeCommit>();
+  trees = new Map<string, Map<string, string>>();
+  blobs = new Map<string, string>();
+  requests: string[] = [];
+  private nextId = 0;
+
+  constructor(files: Record<string, string>) {
+    const tree = this.createTree(new Map(), files);
+    this.branches.set("main", this.createCommit("Initial commit", tree, []));
+  }
+
+  // Commits files on top of a branch, as someone else editing on GitHub
+  push(branch: string, files: Record<string, string | null>, message = "Remote edit"): string {
+    const parent = this.branches.get(branch)!;
+    const tree = this.createTree(this.trees.get(this.commits.get(parent)!.tree)!, files);
+    const sha = this.createCommit(message, tree, [parent]);
+    this.branches.set(branch, sha);
+    return sha;
+  }
+
+  // The file at a branch or commit
+  fileAt(ref: string, repoPath: string): string | undefined {
+    const tree = this.trees.get(this.commits.get(this.branches.get(ref) || ref)!.tree)!;
+    const blob = tree.get(repoPath);
+    return blob ? this.blobs.get(blob) : undefined;
+  }
+
+  handle = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init.method || "GET";
+    const route = url.pathname.replace("/repos/acme/site", "");
+    const body = init.body ? JSON.parse(String(init.body)) : null;
+    this.requests.push(`${method} ${route}`);
+
+    let match: RegExpMatchArray | null;
+    if ((match = route.match(/^\/git\/refs?\/heads\/(.+)$/))) {
+      if (method === "PATCH") {
+        this.branches.set(match[1]!, body.sha);
+      }
+      const sha = this.branches.get(match[1]!);
+      return sha ? json({ object: { sha } }) : notFound();
+    }
+    if ((match = route.match(/^\/git\/commits\/(\w+)$/))) {
+      const commit = this.commits.get(match[1]!);
+      return commit ? json({ sha: match[1], tree: { sha: commit.tree } }) : notFound();
+    }
+    if ((match = route.match(/^\/git\/trees\/(\w+)$/))) {
+      const tree = this.trees.get(match[1]!)!;
+      return json({
+        sha: match[1],
+        tree: Array.from(tree, ([path, sha]) => ({ path, mode: "100644", type: "blob", sha, url: "" })),
+      });
+    }
+    if ((match = route.match(/^\/git\/blobs\/(\w+)$/))) {
+      return json({ content: Buffer.from(this.blobs.get(match[1]!)!).toString("base64") });
+    }
+    if (route === "/git/trees" && method === "POST") {
+      const files = Object.fromEntries(
+        body.tree.map((entry: { path: string; content?: string; sha?: null }) => [
+          entry.path,
+          entry.content ?? null,
+        ])
+      );
+      return json({ sha: this.createTree(this.trees.get(body.base_tree)!, files) });
+    }
+    if (route === "/git/commits" && method === "POST") {
+      return json({ sha: this.createCommit(body.message, body.tree, body.parents, body.author) });
+    }
+    if ((match = route.match(/^\/contents\/(.+)$/))) {
+      const content = this.fileAt(url.searchParams.get("ref")!, match[1]!);
+      if (content === undefined) {
+        return notFound();
+      }
+      const headers = new Headers(init.headers as Record<string, string>);
+      return headers.get("Accept") === "application/vnd.github.v3.raw"
+        ? new Response(content)
+        : json({ sha: getBlobSha(content) });
+    }
+    if (route === "/commits") {
+      return json(this.listCommits(url.searchParams));
+    }
+    return notFound();
+  };
+
+  private createTree(base: Map<string, string>, files: Record<string, string | null>): string {
+    const tree = new Map(base);
+    for (const [repoPath, content] of Object.entries(files)) {
+      if (content === null) {
+        tree.delete(repoPath);
+        continue;
+      }
+      const sha = getBlobSha(content);
+      this.blobs.set(sha, content);
+      tree.set(repoPath, sha);
+    }
+    const sha = this.createId("tree");
+    this.trees.set(sha, tree);
+    return sha;
+  }
+
+  private createCommit(
+    message: string,
+    tree: string,
+    parents: string[],
+    author = { ...AUTHOR, date: new Date(0).toISOString() }
+  ): string {
+    const sha = this.createId("commit");
+    this.commits.set(sha, { message, tree, parents, author });
+    return sha;
+  }
+
+  // Commits on the first-parent chain that changed the file
+  private listCommits(params: URLSearchParams) {
+    const filePath = params.get("path")!;
+    const items = [];
+    let sha = this.branches.get(params.get("sha")!);
+    while (sha && items.length < Number(params.get("per_page"))) {
+      const commit = this.commits.get(sha)!;
+      const parent = commit.parents[0];
+      const before = parent && this.trees.get(this.commits.get(parent)!.tree)!.get(filePath);
+      if (this.trees.get(commit.tree)!.get(filePath) !== before) {
+        items.push({
+          sha,
+          commit: { message: commit.message, tree: { sha: commit.tree }, author: commit.author },
+          parents: commit.parents.map((parentSha) => ({ sha: parentSha })),
+        });
+      }
+      sha = parent;
+    }
+    return items;
+  }
+
+  private createId(kind: string): string {
+    return `${kind}${String(++this.nextId).padStart(4, "0")}`;
+  }
+}
+
+function json(data: unknown): Response {
+  return new Response(JSON.stringify(data), { headers: { "Content-Type": "application/json" } });
+}
+
+function notFound(): Response {
+  return new Response("Not Found", { status: 404, statusText: "Not Found" });
+}
+
+describe("GitHubStorage", () => {
+  let dir: string;
+  let github: FakeGitHub;
+  let staging: StagingArea;
+  let storage: GitHubStorage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "json-cms-github-"));
+    github = new FakeGitHub({
+      "content/home.json": '{\n  "title": "Home"\n}\n',
+      "content/about.json": '{\n  "title": "About"\n}\n',
+      "README.md": "# Site\n",
+    });
+    jest.spyOn(global, "fetch").mockImplementation(github.handle);
+    jest.spyOn(process, "cwd").mockReturnValue(dir);
+    staging = new StagingArea(path.join(dir, ".json-cms", "staging.json"));
+    storage = new GitHubStorage(
+      { token: "token", owner: "acme", repo: "site", branch: "main" },
+      staging
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("commit", () => {
+    it("commits every staged file as one commit on the branch", async () => {
+      const before = github.branches.get("main");
+      await storage.writeFile("home.json", '{"title":"Welcome"}');
+      await storage.writeFile("contact.json", '{"title":"Contact"}');
+
+      const result = await storage.commit("Update pages", AUTHOR);
+
+      expect(result.files).toEqual(["contact.json", "home.json"]);
+      expect(github.branches.get("main")).toBe(result.commitId);
+      expect(github.commits.get(result.commitId)).toMatchObject({
+        message: "Update pages",
+        parents: [before],
+        author: AUTHOR,
+      });
+      expect(github.fileAt("main", "content/home.json")).toBe('{"title":"Welcome"}');
+      expect(github.fileAt("main", "content/contact.json")).toBe('{"title":"Contact"}');
+      expect(github.fileAt("main", "README.md")).toBe("# Site\n");
+      expect(await staging.list()).toEqual([]);
+    });
+
+    it("rejects staged edits of files that changed on the branch", async () => {
+      await storage.writeFile("home.json", '{"title":"Local"}');
+      await storage.writeFile("about.json", '{"title":"About us"}');
+      const remote = github.push("main", { "content/home.json": '{"title":"Remote"}' });
+
+      await expect(storage.commit("Update home")).rejects.toMatchObject({ code: "CONFLICT" });
+      expect(github.branches.get("main")).toBe(remote);
+      expect(await staging.list()).toHaveLength(2);
+    });
+
+    it("rejects a commit without staged files", async () => {
+      await expect(storage.commit("Nothing")).rejects.toMatchObject({ code: "NOTHING_TO_COMMIT" });
+    });
+  });
+
+  describe("push", () => {
+    it("reports the remote head without writing anything", async () => {
+      const result = await storage.push({ branch: "main" });
+
+      expect(result).toEqual({ head: github.branches.get("main"), branch: "main" });
+      expect(github.requests.filter((request) => !request.startsWith("GET"))).toEqual([]);
+    });
+  });
+
+  describe("pull", () => {
+    it("writes changed content files to the local content directory", async () => {
+      await fs.mkdir(path.join(dir, "content"), { recursive: true });
+      await fs.writeFile(path.join(dir, "content", "about.json"), '{\n  "title": "About"\n}\n');
+      github.push("main", { "content/home.json": '{"title":"Remote"}' });
+
+      const result = await storage.pull({ branch: "main" });
+
+      expect(result.head).toBe(github.branches.get("main"));
+      expect(result.updated).toEqual(["home.json"]);
+      expect(await fs.readFile(path.join(dir, "content", "home.json"), "utf-8")).toBe(
+        '{"title":"Remote"}'
+      );
+      await expect(fs.access(path.join(dir, "README.md"))).rejects.toThrow();
+    });
+
+    it("merges staged edits with remote changes to other keys", async () => {
+      await storage.writeFile("home.json", '{\n  "title": "Home",\n  "lead": "Hello"\n}\n');
+      github.push("main", { "content/home.json": '{\n  "title": "Remote"\n}\n' });
+
+      const result = await storage.pull({ branch: "main" });
+
+      expect(result.merged).toEqual(["home.json"]);
+      expect(result.conflicts).toEqual([]);
+      const staged = await staging.get("content/home.json");
+      expect(JSON.parse(staged!.content)).toEqual({ title: "Remote", lead: "Hello" });
+      expect(staged!.baseSha).toBe(getBlobSha('{\n  "title": "Remote"\n}\n'));
+    });
+
+    it("keeps conflicting staged edits and reports them", async () => {
+      await storage.writeFile("home.json", '{"title":"Local"}');
+      github.push("main", { "content/home.json": '{"title":"Remote"}' });
+
+      const result = await storage.pull({ branch: "main" });
+
+      expect(result.conflicts).toEqual([
+        {
+          path: "home.json",
+          base: '{\n  "title": "Home"\n}\n',
+          local: '{"title":"Local"}',
+          remote: '{"title":"Remote"}',
+        },
+      ]);
+      expect((await staging.get("content/home.json"))!.content).toBe('{"title":"Local"}');
+    });
+  });
+
+  describe("getHistory", () => {
+    it("lists the commits that changed the file, newest first", async () => {
+      const first = github.push("main", { "content/home.json": '{"title":"One"}' }, "First");
+      github.push("main", { "content/about.json": '{"title":"Other"}' }, "Other file");
+      const second = github.push("main", { "content/home.json": '{"title":"Two"}' }, "Second");
+
+      const history = await storage.getHistory("home.json", 2);
+
+      expect(history.map((entry) => [entry.oid, entry.commit.message])).toEqual([
+        [second, "Second"],
+        [first, "First"],
+      ]);
+      expect(history[0]!.commit.author).toEqual({ ...AUTHOR, timestamp: 0 });
+      expect(history[0]!.commit.parent).toEqual([github.commits.get(second)!.parents[0]]);
+    });
+  });
+
+  describe("revert", () => {
+    it("discards the staged edit without a ref", async () => {
+      await storage.writeFile("home.json", '{"title":"Draft"}');
+
+      const content = await storage.revert("home.json");
+
+      expect(content).toBe('{\n  "title": "Home"\n}\n');
+      expect(await staging.list()).toEqual([]);
+    });
+
+    it("stages the content at a ref", async () => {
+      const old = github.branches.get("main")!;
+      github.push("main", { "content/home.json": '{"title":"New"}' });
+
+      const content = await storage.revert("home.json", old);
+
+      expect(content).toBe('{\n  "title": "Home"\n}\n');
+      expect((await staging.get("content/home.json"))!.content).toBe(content);
+      expect(github.fileAt("main", "content/home.json")).toBe('{"title":"New"}');
+    });
+
+    it("commits the reverted content", async () => {
+      const old = github.branches.get("main")!;
+      github.push("main", { "content/home.json": '{"title":"New"}' });
+      await storage.revert("home.json", old);
+
+      const result = await storage.commit("Revert home.json", AUTHOR);
+
+      expect(result.files).toEqual(["home.json"]);
+      expect(github.fileAt("main", "content/home.json")).toBe('{\n  "title": "Home"\n}\n');
+    });
+  });
+
+  describe("restore", () => {
+    it("commits only the restored file and keeps other staged edits", async () => {
+      const old = github.branches.get("main")!;
+      github.push("main", { "content/home.json": '{"title":"New"}' });
+      await storage.writeFile("about.json", '{"title":"Draft"}');
+
+      const result = await storage.restore("home.json", old, "Restore home.json", AUTHOR);
+
+      expect(result.files).toEqual(["home.json"]);
+      expect(github.fileAt("main", "content/home.json")).toBe('{\n  "title": "Home"\n}\n');
+      expect(github.fileAt("main", "content/about.json")).toBe('{\n  "title": "About"\n}\n');
+      expect((await staging.list()).map((file) => file.path)).toEqual(["content/about.json"]);
+    });
+
+    it("refuses to restore a file with a staged edit", async () => {
+      const old = github.branches.get("main")!;
+      github.push("main", { "content/home.json": '{"title":"New"}' });
+      await storage.writeFile("home.json", '{"title":"Draft"}');
+
+      await expect(storage.restore("home.json", old, "Restore home.json")).rejects.toMatchObject({
+        code: "UNCOMMITTED_CHANGES",
+      });
+      expect((await staging.get("content/home.json"))!.content).toBe('{"title":"Draft"}');
+      expect(github.fileAt("main", "content/home.json")).toBe('{"title":"New"}');
+    });
+
+    it("rejects restoring the current revision", async () => {
+      const head = github.branches.get("main")!;
+
+      await expect(storage.restore("home.json", head, "Restore")).rejects.toMatchObject({
+        code: "NOTHING_TO_COMMIT",
+      });
+    });
+  });
+
+  it("reports rejected tokens as authentication errors", async () => {
+    jest.spyOn(global, "fetch").mockResolvedValue(new Response("", { status: 401 }));
+
+    const error = await storage.readFile("home.json").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.code).toBe("AUTH_ERROR");
+  });
+});
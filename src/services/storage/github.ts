@@ -0,0 +1,606 @@
+import fs from "fs/promises";
+import path from "path";
+import { StagingArea } from "@/services/staging";
+import {
+  BranchInfo,
+  ChangeRequest,
+  ChangeRequestState,
+  CommitAuthor,
+  CommitResult,
+  FileChange,
+  FileConflict,
+  FileNode,
+  HistoryEntry,
+  RemoteOptions,
+  StatusEntry,
+  StorageBackend,
+  StorageError,
+  SyncResult,
+} from "./types";
+import {
+  CONTENT_DIR,
+  buildTreeFromPaths,
+  getBlobSha,
+  mergeFileContents,
+  toContentPath,
+  toLocalPath,
+  toRepoPath,
+} from "./utils";
+
+export interface GitHubStorageConfig {
+  token: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  // Branch to create `branch` from the first time it is used, e.g. for drafts
+  baseBranch?: string;
+  // Defaults to https://api.github.com; set for GitHub Enterprise
+  apiUrl?: string;
+}
+
+interface GitHubTreeResponse {
+  sha: string;
+  tree: Array<{
+    path: string;
+    mode: string;
+    type: string;
+    sha: string;
+    url: string;
+  }>;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: "open" | "closed";
+  merged: boolean;
+}
+
+interface GitHubCommitListItem {
+  sha: string;
+  commit: {
+    message: string;
+    tree: { sha: string };
+    author: { name: string; email: string; date: string };
+  };
+  parents: Array<{ sha: string }>;
+}
+
+/**
+ * Reads and commits content through the GitHub REST API. Saves are staged on
+ * the server and committed together as a single tree on the configured branch.
+ */
+export class GitHubStorage implements StorageBackend {
+  readonly mode = "github" as const;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private branchReady: Promise<void> | null = null;
+
+  constructor(
+    private config: GitHubStorageConfig,
+    private stagingArea: StagingArea = new StagingArea()
+  ) {
+    const apiUrl = (config.apiUrl || "https://api.github.com").replace(/\/+$/, "");
+    this.baseUrl = `${apiUrl}/repos/${config.owner}/${config.repo}`;
+    this.headers = {
+      Authorization: `token ${config.token}`,
+      Accept: "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+    };
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string> {
+    const repoPath = toRepoPath(filePath);
+
+    // Saved-but-uncommitted edits take precedence over the committed file
+    if (!ref) {
+      const staged = await this.stagingArea.get(repoPath);
+      if (staged) {
+        return staged.content;
+      }
+      await this.ensureBranch();
+    }
+
+    const response = await this.request(
+      `/contents/${repoPath}?ref=${encodeURIComponent(ref || this.config.branch)}`,
+      { headers: { Accept: "application/vnd.github.v3.raw" } }
+    );
+    return response.text();
+  }
+
+  async writeFile(filePath: string, content: string, expectedVersion?: string): Promise<void> {
+    const repoPath = toRepoPath(filePath);
+
+    // Remember which committed version the first edit was based on, so a
+    // later pull can tell whether the file also changed remotely
+    const staged = await this.stagingArea.get(repoPath);
+    const baseSha = staged ? undefined : await this.getFileSha(repoPath);
+
+    if (expectedVersion !== undefined) {
+      const currentVersion = staged ? getBlobSha(staged.content) : baseSha;
+      if (currentVersion !== expectedVersion) {
+        throw new StorageError(
+          `File ${filePath} was changed by someone else since it was loaded`,
+          "CONFLICT"
+        );
+      }
+    }
+
+    await this.stagingArea.stage(repoPath, content, baseSha);
+  }
+
+  async listFiles(): Promise<FileNode[]> {
+    return buildTreeFromPaths(await this.listPaths());
+  }
+
+  async listPaths(): Promise<string[]> {
+    const head = await this.getHead();
+    const tree = await this.getTree(await this.getCommitTree(head));
+    const stagedFiles = await this.stagingArea.list();
+
+    const repoPaths = new Set([
+      ...tree
+        .filter((entry) => entry.type === "blob")
+        .map((entry) => entry.path),
+      ...stagedFiles.map((file) => file.path),
+    ]);
+
+    return Array.from(repoPaths)
+      .filter((repoPath) => repoPath.startsWith(`${CONTENT_DIR}/`))
+      .map(toContentPath);
+  }
+
+  /**
+   * Staged edits vs the branch head. Staged files count as both changed in
+   * the working copy and staged, since the next commit includes all of them.
+   */
+  async getStatus(): Promise<StatusEntry[]> {
+    const stagedFiles = await this.stagingArea.list();
+    if (stagedFiles.length === 0) {
+      return [];
+    }
+
+    const head = await this.getHead();
+    const tree = await this.getTree(await this.getCommitTree(head));
+    const headShas = new Map(tree.map((entry) => [entry.path, entry.sha]));
+    const status: StatusEntry[] = [];
+
+    for (const file of stagedFiles) {
+      const headSha = headShas.get(file.path);
+      if (headSha === getBlobSha(file.content)) {
+        continue;
+      }
+      status.push([toContentPath(file.path), headSha ? 1 : 0, 2, 2]);
+    }
+
+    return status;
+  }
+
+  async commit(message: string, author?: CommitAuthor): Promise<CommitResult> {
+    const stagedFiles = await this.stagingArea.list();
+    if (stagedFiles.length === 0) {
+      throw new StorageError(
+        "There are no saved changes to commit",
+        "NOTHING_TO_COMMIT"
+      );
+    }
+
+    // All staged files go into a single tree so the edit lands as one commit
+    const commitId = await this.commitFiles(stagedFiles, message, author);
+
+    const files = stagedFiles.map((file) => file.path);
+    await this.stagingArea.unstage(files);
+    return { commitId, files: files.map(toContentPath) };
+  }
+
+  async applyChanges(
+    changes: FileChange[],
+    message: string,
+    author?: CommitAuthor
+  ): Promise<CommitResult> {
+    const files = changes.map((change) => ({
+      path: toRepoPath(change.path),
+      content: change.content,
+    }));
+    const commitId = await this.commitFiles(files, message, author);
+
+    // Committed paths no longer have pending edits
+    await this.stagingArea.unstage(files.map((file) => file.path));
+    return { commitId, files: files.map((file) => toContentPath(file.path)) };
+  }
+
+  async restore(
+    filePath: string,
+    ref: string,
+    message: string,
+    author?: CommitAuthor
+  ): Promise<CommitResult> {
+    const repoPath = toRepoPath(filePath);
+    // Restoring commits over the file, which would drop its saved edit
+    if (await this.stagingArea.get(repoPath)) {
+      throw new StorageError(
+        `${filePath} has saved changes that are not committed. Commit or revert them before restoring.`,
+        "UNCOMMITTED_CHANGES"
+      );
+    }
+
+    const content = await this.readFile(filePath, ref);
+    const current = await this.readFile(filePath, this.config.branch).catch(() => null);
+    if (current === content) {
+      throw new StorageError(
+        `${filePath} is already at this revision`,
+        "NOTHING_TO_COMMIT"
+      );
+    }
+
+    // Only the restored file is committed; other staged edits stay staged
+    const commitId = await this.commitFiles([{ path: repoPath, content }], message, author);
+    return { commitId, files: [toContentPath(repoPath)] };
+  }
+
+  async push(_options: RemoteOptions): Promise<SyncResult> {
+    // Commits are created directly on the remote branch, so there is
+    // nothing left to transfer; report the head the remote now points at
+    const head = await this.getHead();
+    return { head, branch: this.config.branch };
+  }
+
+  /**
+   * Brings the local content directory up to date with the branch head, so
+   * the site running next to the editor renders the latest commits, and
+   * three-way merges staged edits whose file changed on the branch.
+   */
+  async pull(_options: RemoteOptions): Promise<SyncResult> {
+    const head = await this.getHead();
+    const tree = await this.getTree(await this.getCommitTree(head));
+    const updated: string[] = [];
+    const merged: string[] = [];
+    const conflicts: FileConflict[] = [];
+
+    for (const entry of tree) {
+      if (entry.type !== "blob" || !entry.path.startsWith(`${CONTENT_DIR}/`)) {
+        continue;
+      }
+
+      const localPath = await toLocalPath(process.cwd(), toContentPath(entry.path));
+      const localContent = await fs.readFile(localPath).catch(() => null);
+      if (localContent && getBlobSha(localContent) === entry.sha) {
+        continue;
+      }
+
+      await fs.mkdir(path.dirname(localPath), { recursive: true });
+      await fs.writeFile(localPath, await this.getBlob(entry.sha));
+      updated.push(toContentPath(entry.path));
+    }
+
+    const remoteShas = new Map(tree.map((entry) => [entry.path, entry.sha]));
+    for (const file of await this.stagingArea.list()) {
+      const remoteSha = remoteShas.get(file.path) ?? null;
+      if (remoteSha === file.baseSha) {
+        continue;
+      }
+
+      const base = file.baseSha ? (await this.getBlob(file.baseSha)).toString("utf-8") : null;
+      const remote = remoteSha ? (await this.getBlob(remoteSha)).toString("utf-8") : null;
+      const mergedContent =
+        base !== null && remote !== null
+          ? mergeFileContents(base, file.content, remote)
+          : null;
+
+      if (mergedContent !== null) {
+        await this.stagingArea.stage(file.path, mergedContent, remoteSha);
+        merged.push(toContentPath(file.path));
+      } else {
+        // Keep the local edit, now based on the remote version, and let the
+        // editor resolve the conflict
+        await this.stagingArea.stage(file.path, file.content, remoteSha);
+        conflicts.push({ path: toContentPath(file.path), base, local: file.content, remote });
+      }
+    }
+
+    return { head, branch: this.config.branch, updated, merged, conflicts };
+  }
+
+  async getHistory(filePath: string, limit: number): Promise<HistoryEntry[]> {
+    await this.ensureBranch();
+    const params = new URLSearchParams({
+      sha: this.config.branch,
+      path: toRepoPath(filePath),
+      per_page: limit.toString(),
+    });
+    const response = await this.request(`/commits?${params}`);
+
+    const commits = (await response.json()) as GitHubCommitListItem[];
+    return commits.map((item) => ({
+      oid: item.sha,
+      commit: {
+        message: item.commit.message,
+        tree: item.commit.tree.sha,
+        parent: item.parents.map((parent) => parent.sha),
+        author: {
+          name: item.commit.author.name,
+          email: item.commit.author.email,
+          timestamp: Math.floor(new Date(item.commit.author.date).getTime() / 1000),
+        },
+      },
+    }));
+  }
+
+  async revert(filePath: string, ref?: string): Promise<string> {
+    const repoPath = toRepoPath(filePath);
+
+    if (!ref) {
+      // Without a ref, revert discards the saved-but-uncommitted edit
+      await this.stagingArea.unstage([repoPath]);
+      return this.readFile(filePath);
+    }
+
+    // Based on the current head like any other edit, so committing it does
+    // not look like a conflict
+    const content = await this.readFile(filePath, ref);
+    const staged = await this.stagingArea.get(repoPath);
+    const baseSha = staged ? undefined : await this.getFileSha(repoPath);
+    await this.stagingArea.stage(repoPath, content, baseSha);
+    return content;
+  }
+
+  async getBranch(): Promise<string> {
+    return this.config.branch;
+  }
+
+  async listBranches(): Promise<BranchInfo[]> {
+    const response = await this.request("/branches?per_page=100");
+    const branches = (await response.json()) as Array<{ name: string; commit: { sha: string } }>;
+    return branches.map((branch) => ({ name: branch.name, head: branch.commit.sha }));
+  }
+
+  async createBranch(name: string, from: string): Promise<void> {
+    const sha = await this.getBranchHead(from);
+    await this.request("/git/refs", {
+      method: "POST",
+      body: JSON.stringify({ ref: `refs/heads/${name}`, sha }),
+    });
+  }
+
+  async deleteBranch(name: string): Promise<void> {
+    await this.request(`/git/refs/heads/${name}`, { method: "DELETE" });
+  }
+
+  async getChangedFiles(base: string, head: string): Promise<string[]> {
+    const response = await this.request(`/compare/${base}...${head}`);
+    const comparison = (await response.json()) as { files?: Array<{ filename: string }> };
+    return (comparison.files || [])
+      .map((file) => file.filename)
+      .filter((repoPath) => repoPath.startsWith(`${CONTENT_DIR}/`))
+      .map(toContentPath);
+  }
+
+  async openChangeRequest(request: ChangeRequest): Promise<{ number: number; url: string }> {
+    const response = await this.request("/pulls", {
+      method: "POST",
+      body: JSON.stringify({
+        title: request.title,
+        body: request.description,
+        head: request.sourceBranch,
+        base: request.targetBranch,
+      }),
+    });
+    const pullRequest = (await response.json()) as GitHubPullRequest;
+    return { number: pullRequest.number, url: pullRequest.html_url };
+  }
+
+  async getChangeRequestState(request: ChangeRequest): Promise<ChangeRequestState> {
+    const response = await this.request(`/pulls/${this.getPullNumber(request)}`);
+    const pullRequest = (await response.json()) as GitHubPullRequest;
+    if (pullRequest.merged) {
+      return "merged";
+    }
+    return pullRequest.state === "closed" ? "closed" : "open";
+  }
+
+  /**
+   * Merges the pull request on GitHub. GitHub records the merge as made by
+   * the token's account, so `author` is not used.
+   */
+  async mergeChangeRequest(
+    request: ChangeRequest,
+    message: string,
+    _author?: CommitAuthor
+  ): Promise<string> {
+    try {
+      const response = await this.request(`/pulls/${this.getPullNumber(request)}/merge`, {
+        method: "PUT",
+        body: JSON.stringify({ commit_title: message, merge_method: "merge" }),
+      });
+      return ((await response.json()) as { sha: string }).sha;
+    } catch (error) {
+      // 405 (not mergeable) and 409 (head changed) both need a fresh look
+      if (error instanceof StorageError && /API error: 40[59]\b/.test(error.message)) {
+        throw new StorageError(
+          `Pull request #${request.number} cannot be merged. Resolve conflicts or required checks on GitHub first.`,
+          "CONFLICT"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async closeChangeRequest(request: ChangeRequest): Promise<void> {
+    await this.request(`/pulls/${this.getPullNumber(request)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ state: "closed" }),
+    });
+  }
+
+  private getPullNumber(request: ChangeRequest): number {
+    if (!request.number) {
+      throw new StorageError(`Change request ${request.id} has no pull request`, "NOT_FOUND");
+    }
+    return request.number;
+  }
+
+  // Creates the working branch from baseBranch the first time it is used
+  private ensureBranch(): Promise<void> {
+    if (!this.branchReady) {
+      this.branchReady = this.createMissingBranch().catch((error) => {
+        this.branchReady = null;
+        throw error;
+      });
+    }
+    return this.branchReady;
+  }
+
+  private async createMissingBranch(): Promise<void> {
+    const { branch, baseBranch } = this.config;
+    if (!baseBranch || baseBranch === branch) {
+      return;
+    }
+
+    try {
+      await this.getBranchHead(branch);
+    } catch (error) {
+      if (error instanceof StorageError && error.code === "NOT_FOUND") {
+        await this.createBranch(branch, baseBranch);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // `git/ref` (singular) only matches the exact branch name
+  private async getBranchHead(branch: string): Promise<string> {
+    const response = await this.request(`/git/ref/heads/${branch}`);
+    const data = await response.json();
+    return data.object.sha;
+  }
+
+  /**
+   * Commits files on top of the branch head. A null content deletes the file
+   * from the tree. Files with a `baseSha` (staged edits) are rejected with a
+   * CONFLICT when the file changed on the branch since the edit started, so
+   * a commit never silently overwrites someone else's change.
+   */
+  private async commitFiles(
+    files: Array<{ path: string; content: string | null; baseSha?: string | null }>,
+    message: string,
+    author?: CommitAuthor
+  ): Promise<string> {
+    const currentCommit = await this.getHead();
+    const baseTree = await this.getCommitTree(currentCommit);
+
+    if (files.some((file) => file.baseSha !== undefined)) {
+      const headShas = new Map(
+        (await this.getTree(baseTree)).map((entry) => [entry.path, entry.sha])
+      );
+      const changed = files.filter((file) => {
+        const headSha = headShas.get(file.path) ?? null;
+        return (
+          file.baseSha !== undefined &&
+          headSha !== file.baseSha &&
+          headSha !== (file.content === null ? null : getBlobSha(file.content))
+        );
+      });
+      if (changed.length > 0) {
+        throw new StorageError(
+          `${changed.map((file) => toContentPath(file.path)).join(", ")} changed on ${this.config.branch} since you started editing. Pull the changes first.`,
+          "CONFLICT"
+        );
+      }
+    }
+    const treeResponse = await this.request("/git/trees", {
+      method: "POST",
+      body: JSON.stringify({
+        base_tree: baseTree,
+        tree: files.map((file) =>
+          file.content === null
+            ? { path: file.path, mode: "100644", type: "blob", sha: null }
+            : { path: file.path, mode: "100644", type: "blob", content: file.content }
+        ),
+      }),
+    });
+    const treeSha = ((await treeResponse.json()) as GitHubTreeResponse).sha;
+
+    const commitResponse = await this.request("/git/commits", {
+      method: "POST",
+      body: JSON.stringify({
+        message,
+        tree: treeSha,
+        parents: [currentCommit],
+        ...(author ? { author: { ...author, date: new Date().toISOString() } } : {}),
+      }),
+    });
+    const commitId = ((await commitResponse.json()) as { sha: string }).sha;
+
+    await this.request(`/git/refs/heads/${this.config.branch}`, {
+      method: "PATCH",
+      body: JSON.stringify({ sha: commitId }),
+    });
+
+    return commitId;
+  }
+
+  private async getBlob(sha: string): Promise<Buffer> {
+    const response = await this.request(`/git/blobs/${sha}`);
+    const blob = await response.json();
+    return Buffer.from(blob.content, "base64");
+  }
+
+  private async getFileSha(repoPath: string): Promise<string | null> {
+    await this.ensureBranch();
+    try {
+      const response = await this.request(
+        `/contents/${repoPath}?ref=${encodeURIComponent(this.config.branch)}`
+      );
+      return ((await response.json()) as { sha: string }).sha;
+    } catch (error) {
+      if (error instanceof StorageError && error.code === "NOT_FOUND") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async getHead(): Promise<string> {
+    await this.ensureBranch();
+    return this.getBranchHead(this.config.branch);
+  }
+
+  private async getCommitTree(commitSha: string): Promise<string> {
+    const response = await this.request(`/git/commits/${commitSha}`);
+    const data = await response.json();
+    return data.tree.sha;
+  }
+
+  private async getTree(treeSha: string): Promise<GitHubTreeResponse["tree"]> {
+    const response = await this.request(`/git/trees/${treeSha}?recursive=1`);
+    return ((await response.json()) as GitHubTreeResponse).tree;
+  }
+
+  private async request(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...init,
+      headers: {
+        ...this.headers,
+        ...(init.headers as Record<string, string>),
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new StorageError(
+          "GitHub authentication failed. Please check your GITHUB_TOKEN.",
+          "AUTH_ERROR"
+        );
+      }
+      if (response.status === 404) {
+        throw new StorageError(`Not found on GitHub: ${endpoint}`, "NOT_FOUND");
+      }
+      throw new StorageError(
+        `GitHub API error: ${response.status} ${response.statusText}`,
+        "GITHUB_ERROR"
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,96 @@
+import { StagingArea, getStagingFilePath } from "@/services/staging";
+import { GitHubStorage } from "./github";
+import { LocalGitStorage } from "./local";
+import { StorageBackend, StorageError, StorageMode } from "./types";
+
+export * from "./types";
+export { GitHubStorage } from "./github";
+export { LocalGitStorage, getStartupBranch } from "./local";
+export { FOLDER_MARKER, getBlobSha, isJsonFile } from "./utils";
+
+/**
+ * Resolves the storage mode from `CMS_STORAGE`, defaulting to GitHub when
+ * GITHUB_TOKEN, GITHUB_REPO and GITHUB_OWNER are all set.
+ */
+export function getStorageMode(): StorageMode {
+  const mode = process.env.CMS_STORAGE;
+  if (mode === "github" || mode === "local") {
+    return mode;
+  }
+  if (mode) {
+    throw new StorageError(
+      `Unknown CMS_STORAGE "${mode}". Use "github" or "local".`,
+      "CONFIG_ERROR"
+    );
+  }
+
+  const { GITHUB_TOKEN, GITHUB_REPO, GITHUB_OWNER } = process.env;
+  return GITHUB_TOKEN && GITHUB_REPO && GITHUB_OWNER ? "github" : "local";
+}
+
+export interface StorageOptions {
+  // Branch to work on instead of GITHUB_BRANCH (or the checked-out branch)
+  branch?: string;
+  // Branch to create `branch` from the first time it is used
+  baseBranch?: string;
+}
+
+export function getStorageBackend(options: StorageOptions = {}): StorageBackend {
+  if (getStorageMode() === "local") {
+    return new LocalGitStorage(process.cwd(), options);
+  }
+
+  const token = process.env.GITHUB_TOKEN;
+  const repo = process.env.GITHUB_REPO;
+  const owner = process.env.GITHUB_OWNER;
+  const defaultBranch = process.env.GITHUB_BRANCH || "main";
+  const branch = options.branch || defaultBranch;
+
+  if (!token || !repo || !owner) {
+    throw new StorageError(
+      "GitHub configuration is missing. Please set GITHUB_TOKEN, GITHUB_REPO, and GITHUB_OWNER in .env.local",
+      "CONFIG_ERROR"
+    );
+  }
+
+  const stagingArea = new StagingArea(
+    branch === defaultBranch ? undefined : getStagingFilePath(branch)
+  );
+  return new GitHubStorage(
+    {
+      token,
+      owner,
+      repo,
+      branch,
+      baseBranch: options.baseBranch,
+      apiUrl: process.env.GITHUB_API_URL,
+    },
+    stagingArea
+  );
+}
+
+/**
+ * Maps storage error codes to HTTP status codes for the API routes.
+ */
+export function getStorageErrorStatus(error: StorageError): number {
+  switch (error.code) {
+    case "NOT_FOUND":
+      return 404;
+    case "AUTH_ERROR":
+      return 401;
+    case "PROTECTED_BRANCH":
+      return 403;
+    case "NOTHING_TO_COMMIT":
+    case "INVALID_PATH":
+    case "INVALID_BRANCH":
+      return 400;
+    case "CONFLICT":
+    case "ALREADY_EXISTS":
+    case "UNCOMMITTED_CHANGES":
+    case "BRANCH_IN_USE":
+    case "NOT_APPROVED":
+      return 409;
+    default:
+      return 500;
+  }
+}
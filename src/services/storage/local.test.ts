@@ -0,0 +1,248 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import git from "isomorphic-git";
+import { getDefaultStorage, getPublishBranch } from "@/services/workflow";
+import { LocalGitStorage, getStartupBranch } from "./local";
+
+const AUTHOR = { name: "Jane", email: "jane@example.com" };
+
+async function writeContent(dir: string, filePath: string, content: string): Promise<void> {
+  const target = path.join(dir, "content", filePath);
+  await fs.promises.mkdir(path.dirname(target), { recursive: true });
+  await fs.promises.writeFile(target, content);
+}
+
+async function readContent(dir: string, filePath: string): Promise<string> {
+  return fs.promises.readFile(path.join(dir, "content", filePath), "utf-8");
+}
+
+// Commits content files directly, as someone working in the clone would
+async function commitContent(dir: string, files: Record<string, string>, message: string) {
+  for (const [filePath, content] of Object.entries(files)) {
+    await writeContent(dir, filePath, content);
+    await git.add({ fs, dir, filepath: `content/${filePath}` });
+  }
+  return git.commit({ fs, dir, message, author: AUTHOR });
+}
+
+describe("LocalGitStorage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "json-cms-local-"));
+    await git.init({ fs, dir, defaultBranch: "main" });
+    await commitContent(
+      dir,
+      { "home.json": '{"title":"Home"}', "about.json": '{"title":"About"}' },
+      "Initial commit"
+    );
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("commit", () => {
+    it("commits saved, added and deleted content files", async () => {
+      const storage = new LocalGitStorage(dir);
+      await storage.writeFile("home.json", '{"title":"Welcome"}');
+      await storage.writeFile("blog/post.json", '{"title":"Post"}');
+      await fs.promises.rm(path.join(dir, "content", "about.json"));
+
+      expect((await storage.getStatus()).map(([filePath]) => filePath).sort()).toEqual([
+        "about.json",
+        "blog/post.json",
+        "home.json",
+      ]);
+
+      const result = await storage.commit("Update pages", AUTHOR);
+
+      expect(result.files.sort()).toEqual(["about.json", "blog/post.json", "home.json"]);
+      expect(await storage.getStatus()).toEqual([]);
+      const [head] = await git.log({ fs, dir, depth: 1 });
+      expect(head!.oid).toBe(result.commitId);
+      expect(head!.commit.author).toMatchObject(AUTHOR);
+      expect(await storage.listPaths()).toEqual(expect.arrayContaining(["blog/post.json"]));
+    });
+
+    it("rejects a commit without changes", async () => {
+      const storage = new LocalGitStorage(dir);
+
+      await expect(storage.commit("Nothing")).rejects.toMatchObject({ code: "NOTHING_TO_COMMIT" });
+    });
+  });
+
+  describe("getHistory", () => {
+    it("lists the commits that changed the file", async () => {
+      const [initial] = await git.log({ fs, dir, depth: 1 });
+      const first = await commitContent(dir, { "home.json": '{"title":"One"}' }, "First");
+      await commitContent(dir, { "about.json": '{"title":"Other"}' }, "Other file");
+      const second = await commitContent(dir, { "home.json": '{"title":"Two"}' }, "Second");
+      const storage = new LocalGitStorage(dir);
+
+      const history = await storage.getHistory("home.json", 10);
+
+      expect(history.map((entry) => [entry.oid, entry.commit.message.trim()])).toEqual([
+        [second, "Second"],
+        [first, "First"],
+        [initial!.oid, "Initial commit"],
+      ]);
+    });
+
+    it("has no history for files that were never committed", async () => {
+      const storage = new LocalGitStorage(dir);
+      await storage.writeFile("draft.json", "{}");
+
+      expect(await storage.getHistory("draft.json", 10)).toEqual([]);
+    });
+  });
+
+  describe("revert", () => {
+    it("discards uncommitted edits", async () => {
+      const storage = new LocalGitStorage(dir);
+      await storage.writeFile("home.json", '{"title":"Draft"}');
+
+      expect(await storage.revert("home.json")).toBe('{"title":"Home"}');
+      expect(await readContent(dir, "home.json")).toBe('{"title":"Home"}');
+      expect(await storage.getStatus()).toEqual([]);
+    });
+
+    it("writes the content at a ref without committing it", async () => {
+      const [initial] = await git.log({ fs, dir, depth: 1 });
+      await commitContent(dir, { "home.json": '{"title":"New"}' }, "Update home");
+      const storage = new LocalGitStorage(dir);
+
+      expect(await storage.revert("home.json", initial!.oid)).toBe('{"title":"Home"}');
+      expect((await storage.getStatus()).map(([filePath]) => filePath)).toEqual(["home.json"]);
+    });
+  });
+
+  describe("restore", () => {
+    it("commits only the restored file", async () => {
+      const [initial] = await git.log({ fs, dir, depth: 1 });
+      await commitContent(dir, { "home.json": '{"title":"New"}' }, "Update home");
+      const storage = new LocalGitStorage(dir);
+      await storage.writeFile("about.json", '{"title":"About us"}');
+
+      const result = await storage.restore("home.json", initial!.oid, "Restore home.json", AUTHOR);
+
+      expect(result.files).toEqual(["home.json"]);
+      expect(await storage.readFile("home.json", "HEAD")).toBe('{"title":"Home"}');
+      expect((await storage.getStatus()).map(([filePath]) => filePath)).toEqual(["about.json"]);
+    });
+
+    it("refuses to restore a file with saved changes", async () => {
+      const [initial] = await git.log({ fs, dir, depth: 1 });
+      await commitContent(dir, { "home.json": '{"title":"New"}' }, "Update home");
+      const storage = new LocalGitStorage(dir);
+      await storage.writeFile("home.json", '{"title":"Draft"}');
+
+      await expect(storage.restore("home.json", initial!.oid, "Restore")).rejects.toMatchObject({
+        code: "UNCOMMITTED_CHANGES",
+      });
+      expect(await readContent(dir, "home.json")).toBe('{"title":"Draft"}');
+    });
+
+    it("rejects restoring the current revision", async () => {
+      const storage = new LocalGitStorage(dir);
+
+      await expect(storage.restore("home.json", "HEAD", "Restore")).rejects.toMatchObject({
+        code: "NOTHING_TO_COMMIT",
+      });
+    });
+  });
+
+  describe("branches", () => {
+    it("creates and checks out a missing branch from its base branch", async () => {
+      const storage = new LocalGitStorage(dir, { branch: "cms/drafts/jane", baseBranch: "main" });
+      await storage.writeFile("home.json", '{"title":"Draft"}');
+      await storage.commit("Draft", AUTHOR);
+
+      expect(await storage.getBranch()).toBe("cms/drafts/jane");
+      expect(await storage.getChangedFiles("main", "cms/drafts/jane")).toEqual(["home.json"]);
+      expect(await new LocalGitStorage(dir).readFile("home.json", "main")).toBe('{"title":"Home"}');
+    });
+
+    it("checks a named branch out again after another request switched away", async () => {
+      await new LocalGitStorage(dir, { branch: "feature", baseBranch: "main" }).getBranch();
+
+      const storage = new LocalGitStorage(dir, { branch: "main" });
+      await storage.writeFile("home.json", '{"title":"Main"}');
+
+      expect(await git.currentBranch({ fs, dir })).toBe("main");
+    });
+
+    it("rejects requests after the working tree moved to another branch", async () => {
+      const storage = new LocalGitStorage(dir, { branch: "main" });
+      await storage.getBranch();
+      await new LocalGitStorage(dir, { branch: "feature", baseBranch: "main" }).getBranch();
+
+      await expect(storage.writeFile("home.json", "{}")).rejects.toMatchObject({
+        code: "BRANCH_IN_USE",
+      });
+      expect(await readContent(dir, "home.json")).toBe('{"title":"Home"}');
+    });
+
+    it("does not create a missing branch without a base branch", async () => {
+      const storage = new LocalGitStorage(dir, { branch: "missing" });
+
+      await expect(storage.getBranch()).rejects.toMatchObject({ code: "NOT_FOUND" });
+      expect(await git.listBranches({ fs, dir })).toEqual(["main"]);
+    });
+
+    it("refuses to switch branches over uncommitted changes", async () => {
+      await writeContent(dir, "home.json", '{"title":"Unsaved"}');
+      const storage = new LocalGitStorage(dir, { branch: "feature", baseBranch: "main" });
+
+      await expect(storage.getBranch()).rejects.toMatchObject({ code: "UNCOMMITTED_CHANGES" });
+      expect(await git.currentBranch({ fs, dir })).toBe("main");
+    });
+  });
+
+  describe("without a configured publish branch", () => {
+    let repo: string;
+    const env = process.env;
+
+    beforeEach(async () => {
+      // A repository whose main branch is not called main
+      repo = await fs.promises.mkdtemp(path.join(os.tmpdir(), "json-cms-master-"));
+      await git.init({ fs, dir: repo, defaultBranch: "master" });
+      await commitContent(repo, { "home.json": '{"title":"Home"}' }, "Initial commit");
+      jest.spyOn(process, "cwd").mockReturnValue(repo);
+      process.env = { NODE_ENV: "test" };
+    });
+
+    afterEach(async () => {
+      process.env = env;
+      jest.restoreAllMocks();
+      await fs.promises.rm(repo, { recursive: true, force: true });
+    });
+
+    it("publishes the branch checked out at startup", async () => {
+      expect(getPublishBranch()).toBe("master");
+
+      const storage = getDefaultStorage(null);
+      await storage.writeFile("home.json", '{"title":"Edited"}');
+
+      expect(await storage.getBranch()).toBe("master");
+      expect(await readContent(repo, "home.json")).toBe('{"title":"Edited"}');
+    });
+
+    it("returns to the startup branch after another branch was selected", async () => {
+      expect(getStartupBranch(repo)).toBe("master");
+      await new LocalGitStorage(repo, { branch: "feature", baseBranch: "master" }).getBranch();
+
+      expect(await getDefaultStorage(null).getBranch()).toBe("master");
+      expect(await git.currentBranch({ fs, dir: repo })).toBe("master");
+    });
+  });
+
+  it("rejects paths outside the content directory", async () => {
+    const storage = new LocalGitStorage(dir);
+
+    await expect(storage.writeFile("../package.json", "{}")).rejects.toMatchObject({
+      code: "INVALID_PATH",
+    });
+  });
+});
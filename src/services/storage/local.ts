@@ -0,0 +1,586 @@
+import fs from "fs";
+import path from "path";
+import git from "isomorphic-git";
+import http from "isomorphic-git/http/node";
+import {
+  BranchInfo,
+  ChangeRequest,
+  ChangeRequestState,
+  CommitAuthor,
+  CommitResult,
+  FileChange,
+  FileConflict,
+  FileNode,
+  HistoryEntry,
+  RemoteOptions,
+  StatusEntry,
+  StorageBackend,
+  StorageError,
+  SyncResult,
+} from "./types";
+import {
+  CONTENT_DIR,
+  buildTreeFromPaths,
+  getBlobSha,
+  mergeFileContents,
+  toContentPath,
+  toLocalPath,
+  toRepoPath,
+} from "./utils";
+
+export interface LocalGitStorageOptions {
+  // Branch to work on; the checked-out branch when omitted
+  branch?: string;
+  // Branch to create `branch` from the first time it is used; without it
+  // `branch` must exist
+  baseBranch?: string;
+}
+
+// API routes are bundled separately by Next.js, so the branches are kept on
+// globalThis where every copy of this module in the process finds them
+const STARTUP_BRANCHES = Symbol.for("next-json-cms.startupBranches");
+
+/**
+ * The branch checked out in `dir` the first time this is called in the
+ * process, or undefined on a detached HEAD. Later checkouts by the editor do
+ * not change it, so it names the branch the developer was working on.
+ */
+export function getStartupBranch(dir: string): string | undefined {
+  const scope = globalThis as unknown as Record<symbol, Map<string, string | undefined> | undefined>;
+  const branches = (scope[STARTUP_BRANCHES] ??= new Map());
+  if (!branches.has(dir)) {
+    branches.set(dir, readCheckedOutBranch(dir));
+  }
+  return branches.get(dir);
+}
+
+// Read synchronously from HEAD, following the `.git` file of a worktree
+function readCheckedOutBranch(dir: string): string | undefined {
+  try {
+    let gitDir = path.join(dir, ".git");
+    if (fs.statSync(gitDir).isFile()) {
+      const [, target] = fs.readFileSync(gitDir, "utf-8").match(/^gitdir:\s*(.+)$/m) || [];
+      if (!target) return undefined;
+      gitDir = path.resolve(dir, target.trim());
+    }
+    const head = fs.readFileSync(path.join(gitDir, "HEAD"), "utf-8").trim();
+    return head.match(/^ref: refs\/heads\/(.+)$/)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Edits files in the working tree of the local git repository and commits
+ * with isomorphic-git, so a plain local clone works without GitHub.
+ *
+ * The repository has a single working tree, so working on a branch checks it
+ * out for every user of the editor.
+ */
+export class LocalGitStorage implements StorageBackend {
+  readonly mode = "local" as const;
+  private branchReady: Promise<void> | null = null;
+
+  constructor(
+    private dir: string = process.cwd(),
+    private options: LocalGitStorageOptions = {}
+  ) {}
+
+  async readFile(filePath: string, ref?: string): Promise<string> {
+    const repoPath = toRepoPath(filePath);
+    await this.useBranch();
+
+    if (ref) {
+      try {
+        const oid = await this.resolveCommit(ref);
+        const { blob } = await git.readBlob({ fs, dir: this.dir, oid, filepath: repoPath });
+        return Buffer.from(blob).toString("utf-8");
+      } catch (error) {
+        if ((error as { code?: string }).code === "NotFoundError") {
+          throw new StorageError(`File not found at ${ref}: ${repoPath}`, "NOT_FOUND");
+        }
+        throw error;
+      }
+    }
+
+    try {
+      return await fs.promises.readFile(await toLocalPath(this.dir, filePath), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new StorageError(`File not found: ${repoPath}`, "NOT_FOUND");
+      }
+      throw error;
+    }
+  }
+
+  async writeFile(filePath: string, content: string, expectedVersion?: string): Promise<void> {
+    await this.useBranch();
+    if (expectedVersion !== undefined) {
+      const current = await this.readFile(filePath).catch(() => null);
+      if (current === null || getBlobSha(current) !== expectedVersion) {
+        throw new StorageError(
+          `File ${filePath} was changed by someone else since it was loaded`,
+          "CONFLICT"
+        );
+      }
+    }
+
+    const localPath = await toLocalPath(this.dir, filePath);
+    await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+    await fs.promises.writeFile(localPath, content, "utf-8");
+  }
+
+  async listFiles(): Promise<FileNode[]> {
+    return buildTreeFromPaths(await this.listPaths());
+  }
+
+  async listPaths(): Promise<string[]> {
+    await this.useBranch();
+    const contentDir = path.join(this.dir, CONTENT_DIR);
+    const filePaths = await this.walk(contentDir);
+    return filePaths.map((file) => path.relative(contentDir, file).split(path.sep).join("/"));
+  }
+
+  /**
+   * Working tree vs HEAD for the content directory; unchanged files are omitted.
+   */
+  async getStatus(): Promise<StatusEntry[]> {
+    await this.useBranch();
+    return this.readStatus();
+  }
+
+  async commit(message: string, author?: CommitAuthor): Promise<CommitResult> {
+    await this.useBranch();
+    const matrix = await git.statusMatrix({
+      fs,
+      dir: this.dir,
+      filepaths: [CONTENT_DIR],
+    });
+
+    const changed = matrix.filter(
+      ([, head, workdir, stage]) => head !== workdir || workdir !== stage
+    );
+    if (changed.length === 0) {
+      throw new StorageError(
+        "There are no saved changes to commit",
+        "NOTHING_TO_COMMIT"
+      );
+    }
+
+    for (const [filepath, , workdir] of changed) {
+      if (workdir === 0) {
+        await git.remove({ fs, dir: this.dir, filepath });
+      } else {
+        await git.add({ fs, dir: this.dir, filepath });
+      }
+    }
+
+    const commitId = await git.commit({
+      fs,
+      dir: this.dir,
+      message,
+      author: await this.getAuthor(author),
+    });
+    return { commitId, files: changed.map(([filepath]) => toContentPath(filepath)) };
+  }
+
+  async applyChanges(
+    changes: FileChange[],
+    message: string,
+    author?: CommitAuthor
+  ): Promise<CommitResult> {
+    await this.useBranch();
+    const tracked = new Set(await git.listFiles({ fs, dir: this.dir }));
+
+    for (const change of changes) {
+      const repoPath = toRepoPath(change.path);
+      if (change.content !== null) {
+        await this.writeFile(change.path, change.content);
+        await git.add({ fs, dir: this.dir, filepath: repoPath });
+        continue;
+      }
+
+      await fs.promises.rm(await toLocalPath(this.dir, change.path), { force: true });
+      if (tracked.has(repoPath)) {
+        await git.remove({ fs, dir: this.dir, filepath: repoPath });
+      }
+    }
+
+    const commitId = await git.commit({
+      fs,
+      dir: this.dir,
+      message,
+      author: await this.getAuthor(author),
+    });
+    return { commitId, files: changes.map((change) => toContentPath(toRepoPath(change.path))) };
+  }
+
+  async restore(
+    filePath: string,
+    ref: string,
+    message: string,
+    author?: CommitAuthor
+  ): Promise<CommitResult> {
+    const repoPath = toRepoPath(filePath);
+    // Restoring writes over the file, which would drop its saved edit
+    const contentPath = toContentPath(repoPath);
+    if ((await this.getStatus()).some(([changed]) => changed === contentPath)) {
+      throw new StorageError(
+        `${filePath} has saved changes that are not committed. Commit or revert them before restoring.`,
+        "UNCOMMITTED_CHANGES"
+      );
+    }
+
+    const content = await this.readFile(filePath, ref);
+    const current = await this.readFile(filePath, "HEAD").catch(() => null);
+    if (current === content) {
+      throw new StorageError(
+        `${filePath} is already at this revision`,
+        "NOTHING_TO_COMMIT"
+      );
+    }
+
+    // Only the restored file is added, so other uncommitted edits stay out
+    await this.writeFile(filePath, content);
+    await git.add({ fs, dir: this.dir, filepath: repoPath });
+    const commitId = await git.commit({
+      fs,
+      dir: this.dir,
+      message,
+      author: await this.getAuthor(author),
+    });
+    return { commitId, files: [toContentPath(repoPath)] };
+  }
+
+  async push({ remote, branch }: RemoteOptions): Promise<SyncResult> {
+    await this.useBranch();
+    const result = await git.push({
+      fs,
+      http,
+      dir: this.dir,
+      remote,
+      ref: branch,
+      onAuth: () => this.getAuth(),
+    });
+    if (!result.ok) {
+      throw new StorageError(result.error || "Push was rejected by the remote", "PUSH_REJECTED");
+    }
+    const head = await git.resolveRef({ fs, dir: this.dir, ref: branch });
+    return { head, branch };
+  }
+
+  /**
+   * Pulls the branch and three-way merges uncommitted edits to content files
+   * that also changed remotely. Edits are set aside during the pull so the
+   * checkout never refuses to overwrite them.
+   */
+  async pull({ remote, branch, author }: RemoteOptions): Promise<SyncResult> {
+    await this.useBranch();
+    const previousHead = await git.resolveRef({ fs, dir: this.dir, ref: "HEAD" });
+
+    const localEdits = new Map<string, string>();
+    for (const [filePath, head, workdir] of await this.getStatus()) {
+      if (head === 1 && workdir === 2) {
+        localEdits.set(filePath, await this.readFile(filePath));
+        await this.writeFile(filePath, await this.readFile(filePath, previousHead));
+      }
+    }
+
+    try {
+      await git.pull({
+        fs,
+        http,
+        dir: this.dir,
+        remote,
+        ref: branch,
+        singleBranch: true,
+        author: await this.getAuthor(author),
+        onAuth: () => this.getAuth(),
+      });
+    } catch (error) {
+      for (const [filePath, content] of localEdits) {
+        await this.writeFile(filePath, content);
+      }
+      throw error;
+    }
+
+    const head = await git.resolveRef({ fs, dir: this.dir, ref: "HEAD" });
+    const merged: string[] = [];
+    const conflicts: FileConflict[] = [];
+
+    for (const [filePath, local] of localEdits) {
+      const base = await this.readFile(filePath, previousHead);
+      const remoteContent = await this.readFile(filePath, head).catch(() => null);
+
+      if (remoteContent === null || remoteContent === base) {
+        await this.writeFile(filePath, local);
+        continue;
+      }
+
+      const mergedContent = mergeFileContents(base, local, remoteContent);
+      if (mergedContent !== null) {
+        await this.writeFile(filePath, mergedContent);
+        merged.push(filePath);
+      } else {
+        await this.writeFile(filePath, local);
+        conflicts.push({ path: filePath, base, local, remote: remoteContent });
+      }
+    }
+
+    return { head, previousHead, branch, merged, conflicts };
+  }
+
+  async getHistory(filePath: string, limit: number): Promise<HistoryEntry[]> {
+    await this.useBranch();
+    try {
+      const commits = await git.log({
+        fs,
+        dir: this.dir,
+        filepath: toRepoPath(filePath),
+        depth: limit,
+      });
+      return commits.map(({ oid, commit }) => ({
+        oid,
+        commit: {
+          message: commit.message,
+          tree: commit.tree,
+          parent: commit.parent,
+          author: {
+            name: commit.author.name,
+            email: commit.author.email,
+            timestamp: commit.author.timestamp,
+          },
+        },
+      }));
+    } catch (error) {
+      // Files that were never committed have no history
+      if ((error as { code?: string }).code === "NotFoundError") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async revert(filePath: string, ref: string = "HEAD"): Promise<string> {
+    const content = await this.readFile(filePath, ref);
+    await this.writeFile(filePath, content);
+    return content;
+  }
+
+  async getBranch(): Promise<string> {
+    await this.useBranch();
+    const branch = await git.currentBranch({ fs, dir: this.dir });
+    return branch || "main";
+  }
+
+  async listBranches(): Promise<BranchInfo[]> {
+    const names = await git.listBranches({ fs, dir: this.dir });
+    return Promise.all(
+      names.map(async (name) => ({
+        name,
+        head: await git.resolveRef({ fs, dir: this.dir, ref: name }),
+      }))
+    );
+  }
+
+  async createBranch(name: string, from: string): Promise<void> {
+    const branches = await git.listBranches({ fs, dir: this.dir });
+    if (branches.includes(name)) {
+      throw new StorageError(`Branch ${name} already exists`, "ALREADY_EXISTS");
+    }
+    await git.branch({ fs, dir: this.dir, ref: name, object: await this.resolveCommit(from) });
+  }
+
+  async deleteBranch(name: string): Promise<void> {
+    if ((await git.currentBranch({ fs, dir: this.dir })) === name) {
+      throw new StorageError(`Branch ${name} is checked out`, "BRANCH_IN_USE");
+    }
+    await git.deleteBranch({ fs, dir: this.dir, ref: name });
+  }
+
+  async getChangedFiles(base: string, head: string): Promise<string[]> {
+    const baseOid = await this.resolveCommit(base);
+    const headOid = await this.resolveCommit(head);
+    const [mergeBase] = await git.findMergeBase({ fs, dir: this.dir, oids: [baseOid, headOid] });
+    const changed: string[] = [];
+
+    await git.walk({
+      fs,
+      dir: this.dir,
+      trees: [git.TREE({ ref: mergeBase || baseOid }), git.TREE({ ref: headOid })],
+      map: async (filepath, [before, after]) => {
+        // Returning null skips everything outside the content directory
+        if (filepath !== "." && filepath !== CONTENT_DIR && !filepath.startsWith(`${CONTENT_DIR}/`)) {
+          return null;
+        }
+        const types = [await before?.type(), await after?.type()];
+        if (!types.includes("tree") && (await before?.oid()) !== (await after?.oid())) {
+          changed.push(toContentPath(filepath));
+        }
+        return true;
+      },
+    });
+
+    return changed.sort();
+  }
+
+  // Change requests only exist in the CMS until they are merged locally
+  async openChangeRequest(_request: ChangeRequest): Promise<{ number?: number; url?: string }> {
+    return {};
+  }
+
+  async getChangeRequestState(request: ChangeRequest): Promise<ChangeRequestState> {
+    return request.state;
+  }
+
+  async mergeChangeRequest(
+    request: ChangeRequest,
+    message: string,
+    author?: CommitAuthor
+  ): Promise<string> {
+    try {
+      const result = await git.merge({
+        fs,
+        dir: this.dir,
+        ours: request.targetBranch,
+        theirs: request.sourceBranch,
+        fastForward: false,
+        abortOnConflict: true,
+        message,
+        author: await this.getAuthor(author),
+      });
+
+      // Merging only moves the branch; bring the working tree along if the
+      // target is checked out
+      if ((await git.currentBranch({ fs, dir: this.dir })) === request.targetBranch) {
+        await git.checkout({ fs, dir: this.dir, ref: request.targetBranch });
+      }
+      return result.oid || (await git.resolveRef({ fs, dir: this.dir, ref: request.targetBranch }));
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === "MergeConflictError" || code === "MergeNotSupportedError") {
+        throw new StorageError(
+          `${request.sourceBranch} conflicts with ${request.targetBranch}. Merge ${request.targetBranch} into it first.`,
+          "CONFLICT"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async closeChangeRequest(_request: ChangeRequest): Promise<void> {}
+
+  /**
+   * Checks out the configured branch once per instance. The working tree is
+   * shared, so later calls make sure no other request has switched it to
+   * another branch in the meantime, rather than editing that branch.
+   */
+  private async useBranch(): Promise<void> {
+    if (!this.branchReady) {
+      this.branchReady = this.checkoutBranch().catch((error) => {
+        this.branchReady = null;
+        throw error;
+      });
+    }
+    await this.branchReady;
+
+    const { branch } = this.options;
+    const current = await git.currentBranch({ fs, dir: this.dir });
+    if (branch && current !== branch) {
+      throw new StorageError(
+        `${current || "Another commit"} was checked out while working on ${branch}. Reload to continue.`,
+        "BRANCH_IN_USE"
+      );
+    }
+  }
+
+  private async checkoutBranch(): Promise<void> {
+    const { branch, baseBranch } = this.options;
+    const current = await git.currentBranch({ fs, dir: this.dir });
+    if (!branch || branch === current) {
+      return;
+    }
+
+    const branches = await git.listBranches({ fs, dir: this.dir });
+    if (!branches.includes(branch)) {
+      if (!baseBranch) {
+        throw new StorageError(`Branch ${branch} not found`, "NOT_FOUND");
+      }
+      await this.createBranch(branch, baseBranch);
+    }
+
+    if ((await this.readStatus()).length > 0) {
+      throw new StorageError(
+        `Commit or discard the changes on ${current} before switching to ${branch}`,
+        "UNCOMMITTED_CHANGES"
+      );
+    }
+    await git.checkout({ fs, dir: this.dir, ref: branch });
+  }
+
+  private async readStatus(): Promise<StatusEntry[]> {
+    const matrix = await git.statusMatrix({
+      fs,
+      dir: this.dir,
+      filepaths: [CONTENT_DIR],
+    });
+
+    return matrix
+      .filter(([, head, workdir, stage]) => !(head === 1 && workdir === 1 && stage === 1))
+      .map(([filepath, head, workdir, stage]) => [
+        toContentPath(filepath),
+        head,
+        workdir,
+        stage,
+      ]);
+  }
+
+  private async resolveCommit(ref: string): Promise<string> {
+    try {
+      return await git.resolveRef({ fs, dir: this.dir, ref });
+    } catch {
+      // Not a branch, tag or HEAD: treat it as a (possibly abbreviated) commit id
+      return git.expandOid({ fs, dir: this.dir, oid: ref });
+    }
+  }
+
+  private async getAuthor(author?: CommitAuthor): Promise<CommitAuthor> {
+    if (author) {
+      return author;
+    }
+    const name = await git.getConfig({ fs, dir: this.dir, path: "user.name" });
+    const email = await git.getConfig({ fs, dir: this.dir, path: "user.email" });
+    return {
+      name: name || "JSON CMS",
+      email: email || "json-cms@example.com",
+    };
+  }
+
+  private getAuth() {
+    const token = process.env.GIT_TOKEN || process.env.GITHUB_TOKEN;
+    return token ? { username: "x-access-token", password: token } : {};
+  }
+
+  private async walk(dir: string): Promise<string[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.walk(entryPath)));
+      } else {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+}
@@ -0,0 +1,184 @@
+export interface FileNode {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+  children?: FileNode[];
+  // Set on files the signed-in user may read but not write
+  readOnly?: boolean;
+}
+
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+// Same shape as GitCommit in services/git.ts
+export interface HistoryEntry {
+  oid: string;
+  commit: {
+    message: string;
+    tree: string;
+    parent: string[];
+    author: {
+      name: string;
+      email: string;
+      timestamp: number;
+    };
+  };
+}
+
+/**
+ * One row of an isomorphic-git style status matrix:
+ * [filepath, head, workdir, stage]. head is 0 (absent) or 1 (present);
+ * workdir and stage are 0 (absent), 1 (same as head) or 2 (different).
+ */
+export type StatusEntry = [string, number, number, number];
+
+/**
+ * A file written or deleted by `applyChanges`. A null content deletes the
+ * file.
+ */
+export interface FileChange {
+  path: string;
+  content: string | null;
+}
+
+export interface CommitResult {
+  commitId: string;
+  files: string[];
+}
+
+/**
+ * A saved-but-uncommitted file that was also changed remotely and could not
+ * be merged automatically. Contents are null where the file does not exist.
+ */
+export interface FileConflict {
+  path: string;
+  base: string | null;
+  local: string;
+  remote: string | null;
+}
+
+export interface SyncResult {
+  head: string;
+  branch: string;
+  previousHead?: string;
+  updated?: string[];
+  merged?: string[];
+  conflicts?: FileConflict[];
+}
+
+export interface RemoteOptions {
+  remote: string;
+  branch: string;
+  author?: CommitAuthor;
+}
+
+export interface BranchInfo {
+  name: string;
+  head: string;
+}
+
+export type ChangeRequestState = "open" | "merged" | "closed";
+
+export interface ChangeRequestApproval extends CommitAuthor {
+  approvedAt: number;
+  // Head of the source branch that was approved; new commits reset it
+  head: string;
+}
+
+/**
+ * A request to merge a draft branch into the publish branch. With GitHub
+ * storage it is backed by a pull request (`number` and `url`); in local mode
+ * it only exists in the CMS until it is merged locally.
+ */
+export interface ChangeRequest {
+  id: string;
+  title: string;
+  description: string;
+  sourceBranch: string;
+  targetBranch: string;
+  author: CommitAuthor;
+  createdAt: number;
+  state: ChangeRequestState;
+  approvals: ChangeRequestApproval[];
+  number?: number;
+  url?: string;
+  mergeCommit?: string;
+}
+
+export type StorageMode = "github" | "local";
+
+/**
+ * Where content is read from and written to. All file paths are relative to
+ * the content directory (e.g. `blog.json`, not `content/blog.json`).
+ */
+export interface StorageBackend {
+  readonly mode: StorageMode;
+
+  readFile(filePath: string, ref?: string): Promise<string>;
+  /**
+   * Saves a file. When `expectedVersion` is given and the file's current
+   * version (the blob SHA of what `readFile` returns) differs, the save is
+   * rejected with a CONFLICT error instead of overwriting the newer content.
+   */
+  writeFile(filePath: string, content: string, expectedVersion?: string): Promise<void>;
+  listFiles(): Promise<FileNode[]>;
+  // Every file in the content directory, including hidden and non-JSON files
+  listPaths(): Promise<string[]>;
+  getStatus(): Promise<StatusEntry[]>;
+
+  commit(message: string, author?: CommitAuthor): Promise<CommitResult>;
+  /**
+   * Writes and deletes files and commits only those paths, so other saved
+   * edits stay uncommitted.
+   */
+  applyChanges(
+    changes: FileChange[],
+    message: string,
+    author?: CommitAuthor
+  ): Promise<CommitResult>;
+  /**
+   * Commits a file's content as of `ref` on top of the current head, leaving
+   * history intact.
+   */
+  restore(
+    filePath: string,
+    ref: string,
+    message: string,
+    author?: CommitAuthor
+  ): Promise<CommitResult>;
+  push(options: RemoteOptions): Promise<SyncResult>;
+  pull(options: RemoteOptions): Promise<SyncResult>;
+  getHistory(filePath: string, limit: number): Promise<HistoryEntry[]>;
+  revert(filePath: string, ref?: string): Promise<string>;
+  getBranch(): Promise<string>;
+
+  listBranches(): Promise<BranchInfo[]>;
+  createBranch(name: string, from: string): Promise<void>;
+  deleteBranch(name: string): Promise<void>;
+  // Content files changed on `head` since it branched off `base`
+  getChangedFiles(base: string, head: string): Promise<string[]>;
+
+  /**
+   * Opens the remote side of a change request (a GitHub pull request) and
+   * returns its number and URL; local storage has nothing to open.
+   */
+  openChangeRequest(request: ChangeRequest): Promise<{ number?: number; url?: string }>;
+  // Current state, e.g. when a pull request was merged on GitHub directly
+  getChangeRequestState(request: ChangeRequest): Promise<ChangeRequestState>;
+  // Merges the source branch into the target and returns the merge commit
+  mergeChangeRequest(
+    request: ChangeRequest,
+    message: string,
+    author?: CommitAuthor
+  ): Promise<string>;
+  closeChangeRequest(request: ChangeRequest): Promise<void>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
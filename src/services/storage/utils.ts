@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import path from "path";
+import { mergeJson } from "@/utils/jsonMerge";
+import {
+  CONTENT_DIR,
+  ContentPathError,
+  ContentPathKind,
+  normalizeContentPath,
+  resolveContentPath,
+} from "@/utils/contentPath";
+import { FileNode, StorageError } from "./types";
+
+export { CONTENT_DIR };
+
+// Placeholder file that keeps an otherwise empty folder in git
+export const FOLDER_MARKER = ".gitkeep";
+
+/**
+ * Maps a content path (with or without the CONTENT_DIR prefix) to its path
+ * relative to the repository root. Paths that would leave the content
+ * directory are rejected with an INVALID_PATH error.
+ */
+export function toRepoPath(filePath: string): string {
+  try {
+    return path.posix.join(CONTENT_DIR, normalizeContentPath(filePath, "any"));
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+/**
+ * Resolves a content path to an absolute path inside the content directory
+ * of `repoDir`, rejecting symlinks that lead outside of it.
+ */
+export async function toLocalPath(
+  repoDir: string,
+  filePath: string,
+  kind: ContentPathKind = "any"
+): Promise<string> {
+  try {
+    return await resolveContentPath(path.join(repoDir, CONTENT_DIR), filePath, kind);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+function toStorageError(error: unknown): unknown {
+  return error instanceof ContentPathError
+    ? new StorageError(error.message, error.code)
+    : error;
+}
+
+export function toContentPath(repoPath: string): string {
+  return path.posix.relative(CONTENT_DIR, repoPath);
+}
+
+export function isJsonFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith(".json");
+}
+
+// SHA-1 of a git blob object, identical to the sha GitHub reports for files
+export function getBlobSha(content: Buffer | string): string {
+  const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+  return crypto
+    .createHash("sha1")
+    .update(`blob ${data.length}\0`)
+    .update(data)
+    .digest("hex");
+}
+
+/**
+ * Three-way merges JSON file contents. Returns the merged file content, or
+ * null when the documents conflict or are not valid JSON.
+ */
+export function mergeFileContents(
+  base: string,
+  local: string,
+  remote: string
+): string | null {
+  try {
+    const { merged, conflicts } = mergeJson(
+      JSON.parse(base),
+      JSON.parse(local),
+      JSON.parse(remote)
+    );
+    if (conflicts.length > 0) {
+      return null;
+    }
+    return JSON.stringify(merged, null, 2) + (local.endsWith("\n") ? "\n" : "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds a nested file tree from flat content paths, skipping hidden and
+ * non-JSON files. Folder markers add their (possibly empty) folder.
+ */
+export function buildTreeFromPaths(filePaths: string[]): FileNode[] {
+  const root: FileNode[] = [];
+
+  for (const filePath of filePaths) {
+    const isFolderMarker = path.posix.basename(filePath) === FOLDER_MARKER;
+    const segments = (isFolderMarker ? path.posix.dirname(filePath) : filePath).split("/");
+    if (
+      segments.some((segment) => segment.startsWith(".")) ||
+      (!isFolderMarker && !isJsonFile(filePath))
+    ) {
+      continue;
+    }
+
+    let level = root;
+    segments.forEach((segment, index) => {
+      const nodePath = segments.slice(0, index + 1).join("/");
+      const isFile = !isFolderMarker && index === segments.length - 1;
+      let node = level.find((candidate) => candidate.path === nodePath);
+      if (!node) {
+        node = isFile
+          ? { name: segment, path: nodePath, type: "file" }
+          : { name: segment, path: nodePath, type: "directory", children: [] };
+        level.push(node);
+      }
+      level = node.children || [];
+    });
+  }
+
+  return sortFileNodes(root);
+}
+
+// Sort: directories first, then files, both alphabetically
+export function sortFileNodes(nodes: FileNode[]): FileNode[] {
+  for (const node of nodes) {
+    if (node.children) {
+      sortFileNodes(node.children);
+    }
+  }
+  return nodes.sort((a, b) => {
+    if (a.type === b.type) {
+      return a.name.localeCompare(b.name);
+    }
+    return a.type === "directory" ? -1 : 1;
+  });
+}
@@ -0,0 +1,68 @@
+import { ValidationService } from "./validation";
+
+function load(schema: object) {
+  return new ValidationService().loadSchemaFromJson(JSON.stringify(schema));
+}
+
+describe("ValidationService", () => {
+  describe("schemas without a type", () => {
+    it("applies string keywords to strings", () => {
+      const schema = load({ minLength: 3, pattern: "^[a-z]+$" });
+
+      expect(schema.safeParse("abc").success).toBe(true);
+      expect(schema.safeParse("ab").success).toBe(false);
+      expect(schema.safeParse("ABC").success).toBe(false);
+    });
+
+    it("applies number and array keywords to numbers and arrays", () => {
+      const schema = load({ minimum: 1, minItems: 2 });
+
+      expect(schema.safeParse(1).success).toBe(true);
+      expect(schema.safeParse(0).success).toBe(false);
+      expect(schema.safeParse([1, 2]).success).toBe(true);
+      expect(schema.safeParse([1]).success).toBe(false);
+    });
+
+    it("accepts values of other types", () => {
+      const schema = load({ minLength: 3, minimum: 1 });
+
+      expect(schema.safeParse([]).success).toBe(true);
+      expect(schema.safeParse({ a: 1 }).success).toBe(true);
+      expect(schema.safeParse(null).success).toBe(true);
+    });
+
+    it("applies the keywords to untyped properties", () => {
+      const schema = load({
+        type: "object",
+        properties: { slug: { maxLength: 5 } },
+      });
+
+      expect(schema.safeParse({ slug: "short" }).success).toBe(true);
+      const result = schema.safeParse({ slug: "too-long" });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["slug"]);
+    });
+
+    it("applies object keywords to objects only", () => {
+      const schema = load({
+        properties: { title: { type: "string" } },
+        required: ["title"],
+      });
+
+      expect(schema.safeParse({ title: "Home" }).success).toBe(true);
+      expect(schema.safeParse({}).success).toBe(false);
+      expect(schema.safeParse({ title: 1 }).success).toBe(false);
+      expect(schema.safeParse("a string").success).toBe(true);
+      expect(schema.safeParse(null).success).toBe(true);
+    });
+
+    it("applies items to arrays only", () => {
+      const schema = load({ items: { type: "number" } });
+
+      expect(schema.safeParse([1, 2]).success).toBe(true);
+      expect(schema.safeParse(["a"]).success).toBe(false);
+      expect(schema.safeParse("a string").success).toBe(true);
+      expect(schema.safeParse({ a: 1 }).success).toBe(true);
+    });
+  });
+});
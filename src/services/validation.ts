@@ -1,4 +1,19 @@
 import { z } from "zod";
+import { isEqual } from "lodash";
+
+// Shared state while converting one JSON schema document
+interface SchemaContext {
+  root: any;
+  refs: Map<string, z.ZodType>;
+}
+
+// Keywords that only constrain values of one type
+const TYPE_KEYWORDS: Record<"string" | "number" | "array" | "object", string[]> = {
+  string: ["minLength", "maxLength", "pattern", "format"],
+  number: ["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf"],
+  array: ["items", "minItems", "maxItems", "uniqueItems"],
+  object: ["properties", "required", "additionalProperties"],
+};
 
 export class ValidationError extends Error {
   constructor(message: string, public readonly errors: z.ZodIssue[]) {
@@ -62,15 +77,46 @@ export class ValidationService {
 
   loadSchemaFromJson(schemaJson: string): z.ZodType {
     const schema = JSON.parse(schemaJson);
-    return this.jsonSchemaToZod(schema);
+    return this.jsonSchemaToZod(schema, { root: schema, refs: new Map() });
   }
 
-  private jsonSchemaToZod(schema: any): z.ZodType {
+  private jsonSchemaToZod(schema: any, context: SchemaContext): z.ZodType {
+    if (schema === true) {
+      return z.any();
+    }
+    if (schema === false) {
+      return z.never();
+    }
     if (!schema || typeof schema !== "object") {
       return z.any();
     }
 
-    switch (schema.type) {
+    if (typeof schema.$ref === "string") {
+      return this.resolveRef(schema.$ref, context);
+    }
+
+    let zodSchema: z.ZodType;
+    if (Array.isArray(schema.type)) {
+      // Type arrays such as ["string", "null"] accept any of the listed types
+      const variants = schema.type.map((type: string) =>
+        this.typeToZod({ ...schema, type }, context)
+      );
+      zodSchema = this.unionOf(variants);
+    } else {
+      zodSchema = this.typeToZod(schema, context);
+    }
+
+    if (schema.nullable === true) {
+      zodSchema = zodSchema.nullable();
+    }
+
+    return this.applyCombinators(zodSchema, schema, context);
+  }
+
+  private typeToZod(schema: any, context: SchemaContext): z.ZodType {
+    const type = schema.type;
+
+    switch (type) {
       case "string":
         let stringSchema = z.string();
         if (schema.minLength !== undefined) {
@@ -82,34 +128,64 @@ export class ValidationService {
         if (schema.pattern) {
           stringSchema = stringSchema.regex(new RegExp(schema.pattern));
         }
+        switch (schema.format) {
+          case "email":
+            stringSchema = stringSchema.email();
+            break;
+          case "uri":
+            stringSchema = stringSchema.url();
+            break;
+          case "date-time":
+            stringSchema = stringSchema.datetime({ offset: true });
+            break;
+          case "date":
+            stringSchema = stringSchema.regex(/^\d{4}-\d{2}-\d{2}$/, {
+              message: "Invalid date",
+            });
+            break;
+          case "uuid":
+            stringSchema = stringSchema.uuid();
+            break;
+        }
         return stringSchema;
 
       case "number":
-        let numberSchema = z.number();
+      case "integer":
+        let numberSchema = type === "integer" ? z.number().int() : z.number();
+        // Draft-04 used boolean exclusiveMinimum/exclusiveMaximum flags,
+        // draft-06 and later use numeric bounds
         if (schema.minimum !== undefined) {
-          numberSchema = numberSchema.min(schema.minimum);
+          numberSchema =
+            schema.exclusiveMinimum === true
+              ? numberSchema.gt(schema.minimum)
+              : numberSchema.min(schema.minimum);
+        }
+        if (typeof schema.exclusiveMinimum === "number") {
+          numberSchema = numberSchema.gt(schema.exclusiveMinimum);
         }
         if (schema.maximum !== undefined) {
-          numberSchema = numberSchema.max(schema.maximum);
+          numberSchema =
+            schema.exclusiveMaximum === true
+              ? numberSchema.lt(schema.maximum)
+              : numberSchema.max(schema.maximum);
         }
-        return numberSchema;
-
-      case "integer":
-        let integerSchema = z.number().int();
-        if (schema.minimum !== undefined) {
-          integerSchema = integerSchema.min(schema.minimum);
+        if (typeof schema.exclusiveMaximum === "number") {
+          numberSchema = numberSchema.lt(schema.exclusiveMaximum);
         }
-        if (schema.maximum !== undefined) {
-          integerSchema = integerSchema.max(schema.maximum);
+        if (schema.multipleOf !== undefined) {
+          numberSchema = numberSchema.multipleOf(schema.multipleOf);
         }
-        return integerSchema;
+        return numberSchema;
 
       case "boolean":
         return z.boolean();
 
+      case "null":
+        return z.null();
+
       case "array":
-        const itemSchema = schema.items 
-          ? this.jsonSchemaToZod(schema.items)
+        const itemSchema = schema.items && !Array.isArray(schema.items)
+          ? this.jsonSchemaToZod(schema.items, context)
           : z.any();
         let arraySchema = z.array(itemSchema);
         if (schema.minItems !== undefined) {
@@ -118,6 +194,19 @@ export class ValidationService {
         if (schema.maxItems !== undefined) {
           arraySchema = arraySchema.max(schema.maxItems);
         }
+        if (schema.uniqueItems === true) {
+          return arraySchema.superRefine((items, ctx) => {
+            items.forEach((item, index) => {
+              if (items.findIndex((other) => isEqual(other, item)) !== index) {
+                ctx.addIssue({
+                  code: z.ZodIssueCode.custom,
+                  path: [index],
+                  message: "Array items must be unique",
+                });
+              }
+            });
+          });
+        }
         return arraySchema;
 
       case "object":
@@ -126,16 +215,165 @@ export class ValidationService {
         const shape: Record<string, z.ZodType> = {};
 
         for (const [key, value] of Object.entries(properties)) {
-          const propertySchema = this.jsonSchemaToZod(value);
-          shape[key] = required.includes(key) 
-            ? propertySchema 
+          const propertySchema = this.jsonSchemaToZod(value, context);
+          const defaultValue = (value as any)?.default;
+          shape[key] = required.includes(key)
+            ? propertySchema
+            : defaultValue !== undefined
+            ? propertySchema.default(defaultValue)
             : propertySchema.optional();
         }
 
-        return z.object(shape).passthrough();
+        const objectSchema = z.object(shape);
+        if (schema.additionalProperties === false) {
+          return objectSchema.strict();
+        }
+        if (
+          schema.additionalProperties &&
+          typeof schema.additionalProperties === "object"
+        ) {
+          return objectSchema.catchall(
+            this.jsonSchemaToZod(schema.additionalProperties, context)
+          );
+        }
+        return objectSchema.passthrough();
 
       default:
-        return z.any();
+        return this.untypedToZod(schema, context);
+    }
+  }
+
+  /**
+   * Without a `type`, keywords such as `minLength`, `minimum` or `properties`
+   * apply to values of the type they describe and other values pass, so each
+   * value is checked against the keywords for its own type.
+   */
+  private untypedToZod(schema: any, context: SchemaContext): z.ZodType {
+    const typedSchemas = new Map<string, z.ZodType>();
+    for (const [type, keywords] of Object.entries(TYPE_KEYWORDS)) {
+      if (keywords.some((keyword) => schema[keyword] !== undefined)) {
+        typedSchemas.set(type, this.typeToZod({ ...schema, type }, context));
+      }
+    }
+    if (typedSchemas.size === 0) {
+      return z.any();
     }
+
+    return z.any().superRefine((value, ctx) => {
+      const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+      const result = typedSchemas.get(type)?.safeParse(value);
+      result?.error?.issues.forEach((issue) => ctx.addIssue(issue));
+    });
+  }
+
+  /**
+   * Applies the keywords that constrain a value independently of its type:
+   * enum, const, allOf, anyOf and oneOf.
+   */
+  private applyCombinators(
+    zodSchema: z.ZodType,
+    schema: any,
+    context: SchemaContext
+  ): z.ZodType {
+    const allOf: z.ZodType[] = (schema.allOf || []).map((sub: any) =>
+      this.jsonSchemaToZod(sub, context)
+    );
+    const anyOf: z.ZodType[] = (schema.anyOf || []).map((sub: any) =>
+      this.jsonSchemaToZod(sub, context)
+    );
+    const oneOf: z.ZodType[] = (schema.oneOf || []).map((sub: any) =>
+      this.jsonSchemaToZod(sub, context)
+    );
+    const hasEnum = Array.isArray(schema.enum);
+    const hasConst = schema.const !== undefined;
+
+    if (!hasEnum && !hasConst && !allOf.length && !anyOf.length && !oneOf.length) {
+      return zodSchema;
+    }
+
+    return zodSchema.superRefine((value, ctx) => {
+      if (hasEnum && !schema.enum.some((option: unknown) => isEqual(option, value))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected one of: ${schema.enum
+            .map((option: unknown) => JSON.stringify(option))
+            .join(", ")}`,
+        });
+      }
+
+      if (hasConst && !isEqual(schema.const, value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected ${JSON.stringify(schema.const)}`,
+        });
+      }
+
+      for (const sub of allOf) {
+        const result = sub.safeParse(value);
+        if (!result.success) {
+          result.error.issues.forEach((issue) => ctx.addIssue(issue as z.IssueData));
+        }
+      }
+
+      if (anyOf.length && !anyOf.some((sub) => sub.safeParse(value).success)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Value does not match any of the allowed schemas",
+        });
+      }
+
+      if (oneOf.length) {
+        const matches = oneOf.filter((sub) => sub.safeParse(value).success).length;
+        if (matches !== 1) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message:
+              matches === 0
+                ? "Value does not match any of the allowed schemas"
+                : `Value matches ${matches} schemas but must match exactly one`,
+          });
+        }
+      }
+    });
+  }
+
+  private unionOf(schemas: z.ZodType[]): z.ZodType {
+    if (schemas.length === 0) {
+      return z.never();
+    }
+    if (schemas.length === 1) {
+      return schemas[0]!;
+    }
+    return z.union(schemas as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+  }
+
+  private resolveRef(ref: string, context: SchemaContext): z.ZodType {
+    const cached = context.refs.get(ref);
+    if (cached) {
+      return cached;
+    }
+
+    if (!ref.startsWith("#")) {
+      throw new Error(`Unsupported $ref "${ref}": only local references are supported`);
+    }
+
+    // Register a lazy placeholder first so recursive definitions resolve
+    let resolved: z.ZodType = z.any();
+    const lazySchema = z.lazy(() => resolved);
+    context.refs.set(ref, lazySchema);
+
+    const target = ref
+      .slice(1)
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<any>((node, segment) => (node == null ? undefined : node[segment]), context.root);
+
+    if (target === undefined) {
+      throw new Error(`Unresolvable $ref "${ref}"`);
+    }
+
+    resolved = this.jsonSchemaToZod(target, context);
+    return lazySchema;
   }
 }
@@ -0,0 +1,143 @@
+import type { IncomingMessage } from "http";
+import { AuthError, AuthUser, hasRole, parseCookies } from "@/services/auth";
+import {
+  StorageBackend,
+  StorageError,
+  getStartupBranch,
+  getStorageBackend,
+  getStorageMode,
+} from "@/services/storage";
+
+// Cookie holding the branch selected in the editor for this browser
+export const BRANCH_COOKIE = "cms_branch";
+export const BRANCH_COOKIE_MAX_AGE = 7 * 24 * 60 * 60;
+
+/**
+ * `direct`: edits are committed to the publish branch.
+ * `editorial`: every user edits a draft branch, and changes reach the publish
+ * branch through reviewed change requests.
+ */
+export type WorkflowMode = "direct" | "editorial";
+
+export function getWorkflowMode(): WorkflowMode {
+  const mode = process.env.CMS_WORKFLOW || "direct";
+  if (mode === "direct" || mode === "editorial") {
+    return mode;
+  }
+  throw new StorageError(
+    `Unknown CMS_WORKFLOW "${mode}". Use "direct" or "editorial".`,
+    "CONFIG_ERROR"
+  );
+}
+
+/**
+ * The branch the site is built from. Unconfigured local mode uses the branch
+ * checked out when the server started, so a clone on `master` or a feature
+ * branch works without setup.
+ */
+export function getPublishBranch(): string {
+  const configured = process.env.CMS_PUBLISH_BRANCH || process.env.GITHUB_BRANCH;
+  if (configured) {
+    return configured;
+  }
+  return (getStorageMode() === "local" && getStartupBranch(process.cwd())) || "main";
+}
+
+// Approvals a change request needs before it can be merged
+export function getRequiredApprovals(): number {
+  const approvals = parseInt(process.env.CMS_REQUIRED_APPROVALS || "1", 10);
+  return Number.isNaN(approvals) ? 1 : Math.max(0, approvals);
+}
+
+/**
+ * Each user edits their own draft branch, e.g. `cms/drafts/jane`. Without
+ * authentication everyone shares `cms/drafts/shared`.
+ */
+export function getDraftBranch(user: AuthUser | null): string {
+  const prefix = process.env.CMS_DRAFT_BRANCH_PREFIX || "cms/drafts/";
+  const name = (user?.id || "shared")
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+  return `${prefix}${name || "user"}`;
+}
+
+// A subset of git's ref name rules that is safe in URLs and file names
+export function isValidBranchName(name: string): boolean {
+  return (
+    /^[A-Za-z0-9._/-]+$/.test(name) &&
+    !name.split("/").some((part) => !part || part.startsWith(".") || part.endsWith(".lock")) &&
+    !name.includes("..") &&
+    !name.endsWith(".")
+  );
+}
+
+// The branch selected in the editor, if any
+export function getSelectedBranch(req: IncomingMessage): string | undefined {
+  const branch = parseCookies(req)[BRANCH_COOKIE];
+  return branch && isValidBranchName(branch) ? branch : undefined;
+}
+
+// In the editorial workflow the publish branch only changes through merges
+export function isProtectedBranch(branch: string): boolean {
+  return getWorkflowMode() === "editorial" && branch === getPublishBranch();
+}
+
+/**
+ * Storage for the branch the user edits: the branch selected in the editor,
+ * else their draft branch in the editorial workflow (created from the
+ * publish branch on first use), else the configured branch.
+ */
+export function getWorkingStorage(req: IncomingMessage, user: AuthUser | null): StorageBackend {
+  const selected = getSelectedBranch(req);
+  return selected ? getStorageBackend({ branch: selected }) : getDefaultStorage(user);
+}
+
+/**
+ * Storage for the branch edited when none is selected. The branch is always
+ * named, so local storage checks it out again after someone else switched
+ * the shared working tree to another branch.
+ */
+export function getDefaultStorage(user: AuthUser | null): StorageBackend {
+  if (getWorkflowMode() === "direct") {
+    return getStorageBackend({ branch: getPublishBranch() });
+  }
+  return getStorageBackend({
+    branch: getDraftBranch(user),
+    baseBranch: getPublishBranch(),
+  });
+}
+
+/**
+ * Rejects changes to a protected branch; edits must be made on a draft
+ * branch and merged through a change request.
+ */
+export async function assertWritableBranch(storage: StorageBackend): Promise<void> {
+  const branch = await storage.getBranch();
+  if (isProtectedBranch(branch)) {
+    throw new StorageError(
+      `${branch} is published through change requests. Switch to a draft branch to edit.`,
+      "PROTECTED_BRANCH"
+    );
+  }
+}
+
+/**
+ * Committing needs the publisher role, except that in the editorial workflow
+ * editors commit to their own draft branch: those commits only reach the
+ * publish branch through a reviewed change request.
+ */
+export async function assertCanCommit(
+  storage: StorageBackend,
+  user: AuthUser | null
+): Promise<void> {
+  await assertWritableBranch(storage);
+  if (!user || hasRole(user, "publisher")) {
+    return;
+  }
+
+  const branch = await storage.getBranch();
+  if (getWorkflowMode() !== "editorial" || branch !== getDraftBranch(user)) {
+    throw new AuthError(`Committing to ${branch} requires the publisher role`, "FORBIDDEN");
+  }
+}
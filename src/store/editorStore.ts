@@ -1,53 +1,257 @@
 import { create } from "zustand";
-import { GitService, GitError } from "@/services/git";
+import { BranchState, GitService, GitError, StatusMatrix } from "@/services/git";
 import { ValidationError } from "@/services/validation";
+import type { JsonSchema } from "@/utils/jsonSchema";
+import { AuthSession, Role, hasRole } from "@/services/auth/types";
+import {
+  ConflictChoice,
+  JsonMergeResult,
+  mergeJson,
+  resolveConflicts,
+} from "@/utils/jsonMerge";
+
+export type EditorViewMode = "form" | "json";
+export type EditorSidePanel = "history" | "review";
+
+/**
+ * A file changed both locally and remotely. "editor" conflicts are unsaved
+ * edits to the open file; "saved" conflicts are saved, uncommitted files.
+ */
+export interface MergeConflict {
+  filePath: string;
+  source: "editor" | "saved";
+  result: JsonMergeResult;
+  // Remote content the resolved file is based on
+  remote: string;
+}
+
+// The open file was changed remotely since it was loaded, so saving it failed
+export interface SaveConflict {
+  remote: string;
+  version: string;
+}
+
+export type SaveConflictAction = "reload" | "merge" | "overwrite";
+
+function parseJson(content: string | null): unknown {
+  return content === null ? undefined : JSON.parse(content);
+}
+
+function toFileContent(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function mergeEdits(base: string, local: string, remote: string): JsonMergeResult | null {
+  try {
+    return mergeJson(JSON.parse(base), JSON.parse(local), JSON.parse(remote));
+  } catch {
+    return null;
+  }
+}
 
 interface EditorState {
   currentFile: string | null;
   content: string;
+  // Content as last loaded or saved, used to detect unsaved edits
+  baseContent: string;
+  // Version token of baseContent, sent with saves to detect concurrent edits
+  version: string | null;
+  // The current user may not save the open file
+  readOnly: boolean;
   isLoading: boolean;
   hasChanges: boolean;
   error: string | null;
   gitService: GitService;
+  schema: JsonSchema | null;
+  viewMode: EditorViewMode;
+  sidePanel: EditorSidePanel | null;
+  status: StatusMatrix;
+  session: AuthSession | null;
+  branchState: BranchState | null;
+  mergeConflicts: MergeConflict[];
+  saveConflict: SaveConflict | null;
 
   // Actions
   setCurrentFile: (file: string | null) => void;
   setContent: (content: string) => void;
+  setViewMode: (viewMode: EditorViewMode) => void;
+  setSidePanel: (sidePanel: EditorSidePanel | null) => void;
+  refreshStatus: () => Promise<void>;
+  loadSession: () => Promise<void>;
+  loadBranchState: () => Promise<void>;
+  // Selects the branch to edit; null goes back to the default branch
+  switchBranch: (name: string | null) => Promise<void>;
+  createBranch: (name: string) => Promise<void>;
+  logout: () => Promise<void>;
+  // Whether the current user may perform actions that need `role`
+  can: (role: Role) => boolean;
   saveChanges: () => Promise<void>;
-  commitAndPush: () => Promise<void>;
+  commitAndPush: (message?: string) => Promise<void>;
   discardChanges: () => void;
   loadFile: (path: string) => Promise<void>;
   pullChanges: () => Promise<void>;
+  restoreFile: (ref: string) => Promise<void>;
+  resolveMergeConflict: (choices: Record<string, ConflictChoice>) => Promise<void>;
+  resolveSaveConflict: (action: SaveConflictAction) => Promise<void>;
+  createFile: (filePath: string, template?: string) => Promise<void>;
+  createFolder: (folderPath: string) => Promise<void>;
+  renamePath: (from: string, to: string) => Promise<void>;
+  duplicateFile: (from: string, to: string) => Promise<void>;
+  deletePath: (filePath: string) => Promise<void>;
+}
+
+// True when filePath is target itself or inside the target folder
+function isWithin(filePath: string, target: string): boolean {
+  return filePath === target || filePath.startsWith(`${target}/`);
+}
+
+/**
+ * Runs a committed file operation and refreshes the git status (and with it
+ * the file tree). Returns false when the operation failed.
+ */
+async function runFileOperation(
+  set: (state: Partial<EditorState>) => void,
+  get: () => EditorState,
+  operation: () => Promise<unknown>
+): Promise<boolean> {
+  set({ isLoading: true, error: null });
+
+  try {
+    await operation();
+    await get().refreshStatus();
+    return true;
+  } catch (error) {
+    set({
+      error: (error as Error).message
+    });
+    return false;
+  } finally {
+    set({ isLoading: false });
+  }
 }
 
 export const useEditorStore = create<EditorState>((set, get) => ({
   currentFile: null,
   content: "",
+  baseContent: "",
+  version: null,
+  readOnly: false,
   isLoading: false,
   hasChanges: false,
   error: null,
   gitService: new GitService(),
+  schema: null,
+  viewMode: "json",
+  sidePanel: null,
+  status: [],
+  session: null,
+  branchState: null,
+  mergeConflicts: [],
+  saveConflict: null,
 
   setCurrentFile: (file) => set({ currentFile: file }),
 
   setContent: (content) =>
     set((state) => ({
       content,
-      hasChanges: content !== state.content,
+      hasChanges: content !== state.baseContent,
       error: null,
     })),
 
+  setViewMode: (viewMode) => set({ viewMode }),
+
+  setSidePanel: (sidePanel) => set({ sidePanel }),
+
+  refreshStatus: async () => {
+    try {
+      const status = await get().gitService.getStatus();
+      set({ status });
+    } catch (error) {
+      // Status only drives badges, so a failure should not block editing
+      console.warn("Failed to refresh git status:", error);
+    }
+  },
+
+  loadSession: async () => {
+    try {
+      set({ session: await get().gitService.getSession() });
+    } catch (error) {
+      console.warn("Failed to load session:", error);
+    }
+  },
+
+  loadBranchState: async () => {
+    try {
+      set({ branchState: await get().gitService.getBranchState() });
+    } catch (error) {
+      console.warn("Failed to load branches:", error);
+    }
+  },
+
+  switchBranch: async (name) => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const branchState = await get().gitService.switchBranch(name);
+      set({ branchState, mergeConflicts: [], saveConflict: null });
+    } catch (error) {
+      set({ error: (error as Error).message });
+      return;
+    } finally {
+      set({ isLoading: false });
+    }
+
+    // Reads, saves and history now go to the new branch
+    await get().refreshStatus();
+    const { currentFile } = get();
+    if (currentFile) {
+      await get().loadFile(currentFile);
+    }
+  },
+
+  createBranch: async (name) => {
+    // New branches start from the branch being edited
+    const created = await runFileOperation(set, get, () =>
+      get().gitService.createBranch(name)
+    );
+    if (created) {
+      await get().switchBranch(name);
+    }
+  },
+
+  logout: async () => {
+    await get().gitService.logout();
+    window.location.href = "/login";
+  },
+
+  can: (role) => {
+    const { session } = get();
+    // Until the session is known, actions stay enabled and the API decides
+    if (!session || session.mode === "none") return true;
+    return session.user !== null && hasRole(session.user, role);
+  },
+
   saveChanges: async () => {
-    const { currentFile, content, gitService } = get();
+    const { currentFile, content, version, gitService } = get();
     if (!currentFile) return;
 
     set({ isLoading: true, error: null });
 
     try {
-      await gitService.saveFile(currentFile, content);
-      set({ hasChanges: false });
+      const newVersion = await gitService.saveFile(currentFile, content, version ?? undefined);
+      set({ baseContent: content, version: newVersion, hasChanges: false });
+      await get().refreshStatus();
     } catch (error) {
-      if (error instanceof ValidationError) {
+      if (error instanceof GitError && error.code === "CONFLICT") {
+        try {
+          const remote = await gitService.readVersionedFile(currentFile);
+          set({ saveConflict: { remote: remote.content, version: remote.version } });
+        } catch (readError) {
+          set({
+            error: `Failed to save: ${(readError as Error).message}`
+          });
+        }
+      } else if (error instanceof ValidationError) {
         set({
           error: `Validation error: ${error.errors.map(e => e.message).join(", ")}`
         });
@@ -61,15 +265,24 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }
   },
 
-  commitAndPush: async () => {
-    const { currentFile, gitService } = get();
-    if (!currentFile) return;
+  commitAndPush: async (message) => {
+    // Unsaved edits to the open file are saved so they join the commit
+    if (get().hasChanges) {
+      await get().saveChanges();
+      if (get().error || get().saveConflict) return;
+    }
+
+    const { status, gitService } = get();
+    if (status.length === 0) return;
 
     set({ isLoading: true, error: null });
 
     try {
-      // First commit the changes
-      await gitService.commitChanges(`Update ${currentFile}`);
+      // First commit every saved file as one commit
+      await gitService.commitChanges(
+        message || `Update ${status.map(([filepath]) => filepath).join(", ")}`
+      );
+      await get().refreshStatus();
 
       // Then try to push
       await gitService.push();
@@ -105,17 +318,56 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      const content = await get().gitService.readFile(path);
-      set({
+      const { gitService } = get();
+      const { content, version, readOnly, schemaError } = await gitService.readVersionedFile(path);
+      // A missing or broken schema only disables the form view
+      const schema = await gitService.getSchema(path).catch(() => null);
+      set((state) => ({
         currentFile: path,
         content,
+        baseContent: content,
+        version,
+        readOnly: !!readOnly,
         hasChanges: false,
-      });
+        schema,
+        viewMode: schema ? state.viewMode : "json",
+        error: schemaError
+          ? `The schema for ${path} could not be loaded, so changes cannot be saved: ${schemaError}`
+          : null,
+      }));
     } catch (error) {
       set({
         error: `Failed to load file: ${(error as Error).message}`,
         content: "",
+        baseContent: "",
+        version: null,
+        readOnly: false,
         hasChanges: false,
+        schema: null,
+      });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  restoreFile: async (ref) => {
+    const { currentFile, gitService, hasChanges } = get();
+    if (!currentFile) return;
+    // Restoring reloads the file, which would drop unsaved edits silently
+    if (hasChanges && !window.confirm(`Restoring discards your unsaved changes to ${currentFile}. Continue?`)) {
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+
+    try {
+      await gitService.restoreFile(currentFile, ref);
+      const { content, version } = await gitService.readVersionedFile(currentFile);
+      set({ content, baseContent: content, version, hasChanges: false });
+      await get().refreshStatus();
+    } catch (error) {
+      set({
+        error: `Restore failed: ${(error as Error).message}`
       });
     } finally {
       set({ isLoading: false });
@@ -126,17 +378,50 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      await get().gitService.pull();
-      
-      // Reload current file if any
-      const { currentFile } = get();
-      if (currentFile) {
-        const content = await get().gitService.readFile(currentFile);
-        set({
-          content,
-          hasChanges: false,
-        });
+      const { gitService } = get();
+      const result = await gitService.pull();
+
+      // Saved files the server could not merge automatically
+      const mergeConflicts: MergeConflict[] = (result.conflicts || []).map((conflict) => ({
+        filePath: conflict.path,
+        source: "saved",
+        result: mergeJson(
+          parseJson(conflict.base),
+          parseJson(conflict.local),
+          parseJson(conflict.remote)
+        ),
+        remote: conflict.remote ?? "",
+      }));
+
+      // Reload the current file, merging in any unsaved edits
+      const { currentFile, content, baseContent, hasChanges } = get();
+      if (currentFile && !mergeConflicts.some((c) => c.filePath === currentFile)) {
+        const { content: remote, version } = await gitService.readVersionedFile(currentFile);
+        if (!hasChanges) {
+          set({ content: remote, baseContent: remote, version });
+        } else if (remote !== baseContent) {
+          const merge = mergeEdits(baseContent, content, remote);
+          if (!merge) {
+            // Unparseable edits cannot be merged, so they are kept as they are
+            set({
+              error: "Pulled remote changes, but your unsaved edits are not valid JSON and were not merged."
+            });
+          } else if (merge.conflicts.length === 0) {
+            set({ content: toFileContent(merge.merged), baseContent: remote, version });
+          } else {
+            set({ version });
+            mergeConflicts.push({
+              filePath: currentFile,
+              source: "editor",
+              result: merge,
+              remote,
+            });
+          }
+        }
       }
+
+      set({ mergeConflicts });
+      await get().refreshStatus();
     } catch (error) {
       if (error instanceof GitError) {
         if (error.code === "AUTH_ERROR") {
@@ -157,4 +442,137 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       set({ isLoading: false });
     }
   },
+
+  resolveMergeConflict: async (choices) => {
+    const [conflict, ...remaining] = get().mergeConflicts;
+    if (!conflict) return;
+
+    const resolved = toFileContent(resolveConflicts(conflict.result, choices));
+
+    if (conflict.source === "editor") {
+      // The resolution stays unsaved, now based on the remote version
+      set({
+        content: resolved,
+        baseContent: conflict.remote,
+        hasChanges: resolved !== conflict.remote,
+        mergeConflicts: remaining,
+      });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+
+    try {
+      const version = await get().gitService.resolveConflicts(conflict.filePath, resolved);
+      if (get().currentFile === conflict.filePath) {
+        set({ content: resolved, baseContent: resolved, version, hasChanges: false });
+      }
+      set({ mergeConflicts: remaining });
+      await get().refreshStatus();
+    } catch (error) {
+      set({
+        error: (error as Error).message
+      });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  resolveSaveConflict: async (action) => {
+    const { currentFile, content, baseContent, saveConflict } = get();
+    if (!currentFile || !saveConflict) return;
+
+    set({ saveConflict: null });
+
+    if (action === "reload") {
+      await get().loadFile(currentFile);
+      return;
+    }
+
+    if (action === "overwrite") {
+      // Saving without a version replaces the remote content
+      set({ version: null });
+      await get().saveChanges();
+      return;
+    }
+
+    const merge = mergeEdits(baseContent, content, saveConflict.remote);
+    if (!merge) {
+      set({
+        error: "Your edits are not valid JSON and cannot be merged."
+      });
+      return;
+    }
+
+    // The merged content is left unsaved so it can be reviewed first
+    set({ baseContent: saveConflict.remote, version: saveConflict.version });
+    if (merge.conflicts.length === 0) {
+      set({ content: toFileContent(merge.merged), hasChanges: true });
+    } else {
+      set((state) => ({
+        mergeConflicts: [
+          ...state.mergeConflicts,
+          {
+            filePath: currentFile,
+            source: "editor",
+            result: merge,
+            remote: saveConflict.remote,
+          },
+        ],
+      }));
+    }
+  },
+
+  createFile: async (filePath, template) => {
+    const created = await runFileOperation(set, get, () =>
+      get().gitService.createFile(filePath, template)
+    );
+    if (created) {
+      await get().loadFile(filePath);
+    }
+  },
+
+  createFolder: async (folderPath) => {
+    await runFileOperation(set, get, () => get().gitService.createFolder(folderPath));
+  },
+
+  renamePath: async (from, to) => {
+    const renamed = await runFileOperation(set, get, () =>
+      get().gitService.renamePath(from, to)
+    );
+
+    // Keep editing the open file (and any unsaved edits) at its new path
+    const { currentFile } = get();
+    if (renamed && currentFile && isWithin(currentFile, from)) {
+      set({ currentFile: to + currentFile.slice(from.length) });
+    }
+  },
+
+  duplicateFile: async (from, to) => {
+    const duplicated = await runFileOperation(set, get, () =>
+      get().gitService.duplicateFile(from, to)
+    );
+    if (duplicated) {
+      await get().loadFile(to);
+    }
+  },
+
+  deletePath: async (filePath) => {
+    const deleted = await runFileOperation(set, get, () =>
+      get().gitService.deletePath(filePath)
+    );
+
+    const { currentFile } = get();
+    if (deleted && currentFile && isWithin(currentFile, filePath)) {
+      set({
+        currentFile: null,
+        content: "",
+        baseContent: "",
+        version: null,
+        readOnly: false,
+        hasChanges: false,
+        schema: null,
+      });
+    }
+  },
 }));
@@ -0,0 +1,112 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  CONTENT_DIR,
+  ContentPathError,
+  isValidContentPath,
+  normalizeContentPath,
+  resolveContentPath,
+} from "./contentPath";
+
+describe("normalizeContentPath", () => {
+  it("accepts paths with or without the content directory", () => {
+    expect(normalizeContentPath("posts/a.json")).toBe("posts/a.json");
+    expect(normalizeContentPath(`${CONTENT_DIR}/posts/a.json`)).toBe("posts/a.json");
+    expect(normalizeContentPath("posts\\a.json")).toBe("posts/a.json");
+  });
+
+  it.each([
+    ["..", "../secrets.json"],
+    ["nested ..", "posts/../../secrets.json"],
+    [".", "./a.json"],
+    ["empty segments", "posts//a.json"],
+    ["backslash ..", "posts\\..\\..\\a.json"],
+  ])("rejects %s segments", (_, filePath) => {
+    expect(() => normalizeContentPath(filePath)).toThrow(ContentPathError);
+  });
+
+  it.each(["/etc/passwd.json", "\\\\server\\share\\a.json", "C:\\a.json", "c:/a.json"])(
+    "rejects the absolute path %s",
+    (filePath) => {
+      expect(() => normalizeContentPath(filePath)).toThrow("Absolute paths are not allowed");
+    }
+  );
+
+  it("rejects control characters and empty paths", () => {
+    expect(() => normalizeContentPath("a\u0000.json")).toThrow(ContentPathError);
+    expect(() => normalizeContentPath("")).toThrow("Path is required");
+  });
+
+  it("only accepts visible JSON files by default", () => {
+    expect(isValidContentPath("posts/A.JSON")).toBe(true);
+    expect(isValidContentPath("posts/a.txt")).toBe(false);
+    expect(isValidContentPath("posts/a.json.bak")).toBe(false);
+    expect(isValidContentPath("posts/.hidden.json")).toBe(false);
+    expect(isValidContentPath(".git/config")).toBe(false);
+  });
+
+  it("accepts folders and any file for the other kinds", () => {
+    expect(normalizeContentPath("posts/", "folder")).toBe("posts");
+    expect(normalizeContentPath("posts/.gitkeep", "any")).toBe("posts/.gitkeep");
+    expect(normalizeContentPath("notes.md", "any")).toBe("notes.md");
+    expect(() => normalizeContentPath("../posts", "folder")).toThrow(ContentPathError);
+    expect(() => normalizeContentPath("../notes.md", "any")).toThrow(ContentPathError);
+  });
+});
+
+describe("resolveContentPath", () => {
+  let dir: string;
+  let root: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "json-cms-content-"));
+    root = path.join(dir, "content");
+    await fs.promises.mkdir(path.join(root, "posts"), { recursive: true });
+    await fs.promises.writeFile(path.join(dir, "secrets.json"), "{}");
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves existing and new files inside the content directory", async () => {
+    expect(await resolveContentPath(root, "posts/a.json")).toBe(path.join(root, "posts", "a.json"));
+    expect(await resolveContentPath(root, "new/folder/b.json")).toBe(
+      path.join(root, "new", "folder", "b.json")
+    );
+  });
+
+  it("rejects symlinked files that point outside the content directory", async () => {
+    await fs.promises.symlink(path.join(dir, "secrets.json"), path.join(root, "link.json"));
+
+    await expect(resolveContentPath(root, "link.json")).rejects.toThrow(
+      "Path is outside the content directory"
+    );
+  });
+
+  it("rejects paths through symlinked folders that point outside", async () => {
+    await fs.promises.symlink(dir, path.join(root, "outside"), "dir");
+
+    await expect(resolveContentPath(root, "outside/secrets.json")).rejects.toThrow(ContentPathError);
+    await expect(resolveContentPath(root, "outside/new.json")).rejects.toThrow(ContentPathError);
+  });
+
+  it("rejects dangling symlinks", async () => {
+    await fs.promises.symlink(path.join(dir, "missing.json"), path.join(root, "dangling.json"));
+
+    await expect(resolveContentPath(root, "dangling.json")).rejects.toThrow(ContentPathError);
+  });
+
+  it("allows symlinks that stay inside the content directory", async () => {
+    await fs.promises.writeFile(path.join(root, "posts", "a.json"), "{}");
+    await fs.promises.symlink(path.join(root, "posts"), path.join(root, "alias"), "dir");
+
+    expect(await resolveContentPath(root, "alias/a.json")).toBe(path.join(root, "alias", "a.json"));
+  });
+
+  it("rejects non-JSON files and traversal before touching the file system", async () => {
+    await expect(resolveContentPath(root, "notes.txt")).rejects.toThrow("Only .json files");
+    await expect(resolveContentPath(root, "../secrets.json")).rejects.toThrow(ContentPathError);
+  });
+});
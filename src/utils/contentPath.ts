@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+
+// Sanitizes paths of content files, which arrive from API requests and must
+// never reach outside the content directory. normalizeContentPath is plain
+// string handling and also runs in the browser; resolveContentPath touches
+// the file system and is server-only.
+
+/**
+ * - "file": a visible JSON file (the default)
+ * - "folder": a visible folder
+ * - "any": any file, including hidden and non-JSON files (internal use)
+ */
+export type ContentPathKind = "file" | "folder" | "any";
+
+export class ContentPathError extends Error {
+  constructor(message: string, public readonly code: string = "INVALID_PATH") {
+    super(message);
+    this.name = "ContentPathError";
+  }
+}
+
+// Content directory relative to the project root. `next-json-cms init
+// --content-dir` rewrites this in scaffolded projects.
+export const CONTENT_DIR = "content";
+
+const CONTENT_PREFIX = `${CONTENT_DIR}/`;
+
+/**
+ * Normalizes a path relative to the content directory, e.g.
+ * `content/posts/a.json` or `posts/a.json` to `posts/a.json` (with the
+ * configured CONTENT_DIR as the prefix). Absolute
+ * paths, `.` and `..` segments, empty segments and control characters are
+ * rejected, as are hidden segments and non-JSON files unless `kind` allows
+ * them.
+ */
+export function normalizeContentPath(filePath: string, kind: ContentPathKind = "file"): string {
+  if (typeof filePath !== "string" || filePath.length === 0) {
+    throw new ContentPathError("Path is required");
+  }
+  if (/[\x00-\x1f]/.test(filePath)) {
+    throw new ContentPathError("Path contains invalid characters");
+  }
+
+  let normalized = filePath.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+    throw new ContentPathError(`Absolute paths are not allowed: ${filePath}`);
+  }
+  if (normalized.startsWith(CONTENT_PREFIX)) {
+    normalized = normalized.slice(CONTENT_PREFIX.length);
+  }
+  if (kind === "folder") {
+    normalized = normalized.replace(/\/+$/, "");
+  }
+
+  const segments = normalized.split("/");
+  for (const segment of segments) {
+    if (segment === "" || segment === "." || segment === "..") {
+      throw new ContentPathError(`Invalid path: ${filePath}`);
+    }
+    if (kind !== "any" && segment.startsWith(".")) {
+      throw new ContentPathError(`Hidden files and folders are not allowed: ${filePath}`);
+    }
+  }
+
+  if (kind === "file" && !normalized.toLowerCase().endsWith(".json")) {
+    throw new ContentPathError(`Only .json files can be edited: ${filePath}`);
+  }
+
+  return segments.join("/");
+}
+
+export function isValidContentPath(filePath: string, kind: ContentPathKind = "file"): boolean {
+  try {
+    normalizeContentPath(filePath, kind);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a content path to an absolute path inside `contentRoot`. Besides
+ * normalizing the path, symlinks are followed for the longest existing part
+ * of the path, so a link pointing outside the content directory is rejected
+ * too.
+ */
+export async function resolveContentPath(
+  contentRoot: string,
+  filePath: string,
+  kind: ContentPathKind = "file"
+): Promise<string> {
+  const root = path.resolve(contentRoot);
+  const resolved = path.resolve(root, normalizeContentPath(filePath, kind));
+  if (!isInside(root, resolved)) {
+    throw new ContentPathError(`Path is outside the content directory: ${filePath}`);
+  }
+
+  const realRoot = await fs.promises.realpath(root).catch(() => root);
+  let existing = resolved;
+  while (existing !== root && !(await exists(existing))) {
+    existing = path.dirname(existing);
+  }
+  if (await exists(existing)) {
+    // A dangling symlink cannot be resolved and is rejected as well
+    const realPath = await fs.promises.realpath(existing).catch(() => null);
+    if (realPath === null || !isInside(realRoot, realPath)) {
+      throw new ContentPathError(`Path is outside the content directory: ${filePath}`);
+    }
+  }
+
+  return resolved;
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+async function exists(target: string): Promise<boolean> {
+  try {
+    // lstat, so a dangling symlink still counts as existing
+    await fs.promises.lstat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
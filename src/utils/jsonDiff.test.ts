@@ -0,0 +1,29 @@
+import { diffJson, formatJsonPath } from "./jsonDiff";
+
+describe("diffJson", () => {
+  it("reports added, removed and changed values by path", () => {
+    expect(
+      diffJson({ title: "A", tags: ["x"], old: 1 }, { title: "B", tags: ["x", "y"] })
+    ).toEqual([
+      { path: "$.title", type: "changed", before: "A", after: "B" },
+      { path: "$.tags[1]", type: "added", after: "y" },
+      { path: "$.old", type: "removed", before: 1 },
+    ]);
+  });
+
+  it("reports keys that share a name with inherited properties", () => {
+    expect(diffJson({}, { constructor: "x", toString: 1 })).toEqual([
+      { path: "$.constructor", type: "added", after: "x" },
+      { path: "$.toString", type: "added", after: 1 },
+    ]);
+    expect(diffJson({ valueOf: true }, {})).toEqual([
+      { path: "$.valueOf", type: "removed", before: true },
+    ]);
+  });
+});
+
+describe("formatJsonPath", () => {
+  it("uses bracket notation for keys that are not identifiers", () => {
+    expect(formatJsonPath(["posts", 0, "content-type"])).toBe('$.posts[0]["content-type"]');
+  });
+});
@@ -0,0 +1,80 @@
+export type JsonDiffType = "added" | "removed" | "changed";
+
+export interface JsonDiffEntry {
+  path: string;
+  type: JsonDiffType;
+  before?: unknown;
+  after?: unknown;
+}
+
+type JsonPathSegment = string | number;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// `in` would also find inherited keys such as "constructor" or "toString"
+function hasKey(value: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+/**
+ * Formats path segments as a JSON path, e.g. `$.posts[0].title`. Keys that
+ * are not valid identifiers use bracket notation: `$["content-type"]`.
+ */
+export function formatJsonPath(segments: JsonPathSegment[]): string {
+  return segments.reduce<string>((jsonPath, segment) => {
+    if (typeof segment === "number") {
+      return `${jsonPath}[${segment}]`;
+    }
+    return /^[A-Za-z_$][\w$]*$/.test(segment)
+      ? `${jsonPath}.${segment}`
+      : `${jsonPath}[${JSON.stringify(segment)}]`;
+  }, "$");
+}
+
+/**
+ * Structural diff between two JSON values. Objects are compared key by key
+ * and arrays index by index; a change of type is reported as a single
+ * "changed" entry at that path.
+ */
+export function diffJson(before: unknown, after: unknown): JsonDiffEntry[] {
+  const entries: JsonDiffEntry[] = [];
+
+  function walk(a: unknown, b: unknown, segments: JsonPathSegment[]) {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+      for (const key of keys) {
+        if (!hasKey(b, key)) {
+          entries.push({ path: formatJsonPath([...segments, key]), type: "removed", before: a[key] });
+        } else if (!hasKey(a, key)) {
+          entries.push({ path: formatJsonPath([...segments, key]), type: "added", after: b[key] });
+        } else {
+          walk(a[key], b[key], [...segments, key]);
+        }
+      }
+      return;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const length = Math.max(a.length, b.length);
+      for (let index = 0; index < length; index++) {
+        if (index >= b.length) {
+          entries.push({ path: formatJsonPath([...segments, index]), type: "removed", before: a[index] });
+        } else if (index >= a.length) {
+          entries.push({ path: formatJsonPath([...segments, index]), type: "added", after: b[index] });
+        } else {
+          walk(a[index], b[index], [...segments, index]);
+        }
+      }
+      return;
+    }
+
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      entries.push({ path: formatJsonPath(segments), type: "changed", before: a, after: b });
+    }
+  }
+
+  walk(before, after, []);
+  return entries;
+}
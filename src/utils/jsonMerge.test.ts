@@ -0,0 +1,82 @@
+import { mergeJson, resolveConflicts } from "./jsonMerge";
+
+describe("mergeJson", () => {
+  it("takes changes to different keys from both sides", () => {
+    const result = mergeJson(
+      { title: "Home", lead: "Hi", nested: { a: 1, b: 1 } },
+      { title: "Welcome", lead: "Hi", nested: { a: 2, b: 1 } },
+      { title: "Home", lead: "Hello", nested: { a: 1, b: 2 }, added: true }
+    );
+
+    expect(result).toEqual({
+      merged: { title: "Welcome", lead: "Hello", nested: { a: 2, b: 2 }, added: true },
+      conflicts: [],
+    });
+  });
+
+  it("reports keys changed differently on both sides and keeps the local value", () => {
+    const result = mergeJson({ title: "Home" }, { title: "Local" }, { title: "Remote" });
+
+    expect(result.merged).toEqual({ title: "Local" });
+    expect(result.conflicts).toEqual([
+      { path: "$.title", segments: ["title"], base: "Home", local: "Local", remote: "Remote" },
+    ]);
+  });
+
+  it("reports a key deleted on one side and changed on the other", () => {
+    const result = mergeJson({ title: "Home", lead: "Hi" }, { title: "Home" }, { title: "Home", lead: "Hello" });
+
+    expect(result.merged).toEqual({ title: "Home" });
+    expect(result.conflicts).toEqual([
+      { path: "$.lead", segments: ["lead"], base: "Hi", local: undefined, remote: "Hello" },
+    ]);
+  });
+
+  it("merges arrays of the same length by index and others as one value", () => {
+    expect(mergeJson([1, 2, 3], [9, 2, 3], [1, 2, 8]).merged).toEqual([9, 2, 8]);
+
+    const result = mergeJson({ tags: ["a"] }, { tags: ["a", "b"] }, { tags: ["a", "c"] });
+    expect(result.conflicts.map((conflict) => conflict.path)).toEqual(["$.tags"]);
+  });
+
+  it("does not read inherited properties for missing keys", () => {
+    const result = mergeJson({ toString: "a" }, {}, { toString: "b" });
+
+    expect(result.merged).toEqual({});
+    expect(result.conflicts).toEqual([
+      { path: "$.toString", segments: ["toString"], base: "a", local: undefined, remote: "b" },
+    ]);
+  });
+
+  it("keeps __proto__ as an own key", () => {
+    const base = JSON.parse('{"__proto__": {"x": 1}}');
+    const local = JSON.parse('{"__proto__": {"x": 2}}');
+    const remote = JSON.parse('{"__proto__": {"x": 1}, "y": 1}');
+
+    const merged = mergeJson(base, local, remote).merged as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+    expect(JSON.stringify(merged)).toBe('{"__proto__":{"x":2},"y":1}');
+  });
+});
+
+describe("resolveConflicts", () => {
+  it("applies remote choices and keeps the local value otherwise", () => {
+    const result = mergeJson(
+      { title: "Home", lead: "Hi", body: "Text" },
+      { title: "Local", lead: "Local lead" },
+      { title: "Remote", lead: "Remote lead", body: "Text" }
+    );
+
+    expect(resolveConflicts(result, { "$.title": "remote" })).toEqual({
+      title: "Remote",
+      lead: "Local lead",
+    });
+  });
+
+  it("removes keys the remote side deleted", () => {
+    const result = mergeJson({ lead: "Hi" }, { lead: "Local" }, {});
+
+    expect(resolveConflicts(result, { "$.lead": "remote" })).toEqual({});
+  });
+});
@@ -0,0 +1,117 @@
+import { isEqual } from "lodash";
+import { formatJsonPath } from "@/utils/jsonDiff";
+
+export type JsonPathSegment = string | number;
+
+export interface JsonConflict {
+  path: string;
+  segments: JsonPathSegment[];
+  // undefined means the key does not exist on that side
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface JsonMergeResult {
+  // Conflicting paths hold the local value until they are resolved
+  merged: unknown;
+  conflicts: JsonConflict[];
+}
+
+export type ConflictChoice = "local" | "remote";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Own keys only: a missing "toString" must not read Object.prototype.toString
+function getOwn(value: any, key: JsonPathSegment): unknown {
+  return value != null && Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+}
+
+// Assignment to "__proto__" would set the prototype instead of the key
+function setOwn(target: object, key: JsonPathSegment, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * Key-level three-way merge of JSON documents. A key changed on one side
+ * only takes that side's value; keys changed identically on both sides are
+ * kept; keys changed differently on both sides are reported as conflicts.
+ * Objects are merged recursively, arrays index by index when all three
+ * versions have the same length and as single values otherwise.
+ */
+export function mergeJson(base: unknown, local: unknown, remote: unknown): JsonMergeResult {
+  const conflicts: JsonConflict[] = [];
+
+  function merge(b: unknown, l: unknown, r: unknown, segments: JsonPathSegment[]): unknown {
+    if (isEqual(l, r)) return l;
+    if (isEqual(b, l)) return r;
+    if (isEqual(b, r)) return l;
+
+    if (isPlainObject(b) && isPlainObject(l) && isPlainObject(r)) {
+      const result: Record<string, unknown> = {};
+      const keys = Array.from(new Set([...Object.keys(l), ...Object.keys(r), ...Object.keys(b)]));
+      for (const key of keys) {
+        const value = merge(getOwn(b, key), getOwn(l, key), getOwn(r, key), [...segments, key]);
+        if (value !== undefined) {
+          setOwn(result, key, value);
+        }
+      }
+      return result;
+    }
+
+    if (
+      Array.isArray(b) &&
+      Array.isArray(l) &&
+      Array.isArray(r) &&
+      b.length === l.length &&
+      b.length === r.length
+    ) {
+      return b.map((item, index) => merge(item, l[index], r[index], [...segments, index]));
+    }
+
+    conflicts.push({ path: formatJsonPath(segments), segments, base: b, local: l, remote: r });
+    return l;
+  }
+
+  const merged = merge(base, local, remote, []);
+  return { merged, conflicts };
+}
+
+/**
+ * Applies a choice per conflict (keyed by conflict path) to a merge result.
+ * Conflicts without a choice keep the local value.
+ */
+export function resolveConflicts(
+  result: JsonMergeResult,
+  choices: Record<string, ConflictChoice>
+): unknown {
+  let resolved = JSON.parse(JSON.stringify(result.merged ?? null));
+
+  for (const conflict of result.conflicts) {
+    if (choices[conflict.path] !== "remote") continue;
+
+    if (conflict.segments.length === 0) {
+      resolved = conflict.remote;
+      continue;
+    }
+
+    const parentSegments = conflict.segments.slice(0, -1);
+    const key = conflict.segments[conflict.segments.length - 1]!;
+    const parent = parentSegments.reduce<any>((node, segment) => getOwn(node, segment), resolved);
+    if (parent == null) continue;
+
+    if (conflict.remote === undefined) {
+      if (Array.isArray(parent)) {
+        parent.splice(key as number, 1);
+      } else {
+        delete parent[key];
+      }
+    } else {
+      setOwn(parent, key, conflict.remote);
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,117 @@
+// Helpers for working with raw JSON schema documents on the client, where
+// the zod conversion in ValidationService is not available.
+
+export type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+};
+
+/**
+ * Follows local `$ref` pointers (e.g. `#/definitions/post`) until a concrete
+ * schema is reached. Unresolvable references resolve to an empty schema.
+ */
+export function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let current = schema;
+  const seen = new Set<string>();
+
+  while (current.$ref && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    const target = current.$ref
+      .replace(/^#/, "")
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<any>((node, segment) => (node == null ? undefined : node[segment]), root);
+    const { $ref, ...rest } = current;
+    current = { ...(target || {}), ...rest };
+  }
+
+  return current;
+}
+
+/**
+ * Returns the primary type of a schema, ignoring "null" in type arrays and
+ * inferring object/array from `properties`/`items` when `type` is missing.
+ */
+export function getSchemaType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type) => type !== "null") ?? "null";
+  }
+  if (schema.type) {
+    return schema.type;
+  }
+  if (schema.properties) {
+    return "object";
+  }
+  if (schema.items) {
+    return "array";
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return typeof schema.enum[0];
+  }
+  return undefined;
+}
+
+/**
+ * Builds a value that satisfies the structure of a schema, used for new
+ * array items and new files. Only required object properties are included.
+ */
+export function createDefaultValue(schema: JsonSchema, root: JsonSchema = schema): unknown {
+  const resolved = resolveSchema(schema, root);
+
+  if (resolved.default !== undefined) {
+    return JSON.parse(JSON.stringify(resolved.default));
+  }
+  if (resolved.const !== undefined) {
+    return resolved.const;
+  }
+  if (resolved.enum && resolved.enum.length > 0) {
+    return resolved.enum[0];
+  }
+
+  const variant = resolved.oneOf?.[0] ?? resolved.anyOf?.[0];
+  if (!resolved.type && variant) {
+    return createDefaultValue(variant, root);
+  }
+
+  switch (getSchemaType(resolved)) {
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return resolved.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "array":
+      return [];
+    case "object":
+      const value: Record<string, unknown> = {};
+      for (const key of resolved.required || []) {
+        const propertySchema = resolved.properties?.[key];
+        value[key] = propertySchema ? createDefaultValue(propertySchema, root) : null;
+      }
+      return value;
+    case "null":
+      return null;
+    default:
+      return null;
+  }
+}
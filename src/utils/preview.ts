@@ -0,0 +1,51 @@
+// Messages exchanged between the editor and the site page rendered in its
+// preview pane. The editor posts the unsaved content of the open file; the
+// page announces itself once it listens so it gets the current content.
+
+import { normalizeContentPath } from "@/utils/contentPath";
+
+export const PREVIEW_CONTENT = "json-cms:preview-content";
+export const PREVIEW_READY = "json-cms:preview-ready";
+
+export interface PreviewContentMessage {
+  type: typeof PREVIEW_CONTENT;
+  // Path relative to the content directory, e.g. `blog.json`
+  path: string;
+  content: unknown;
+}
+
+export interface PreviewReadyMessage {
+  type: typeof PREVIEW_READY;
+}
+
+export function isPreviewContentMessage(data: unknown): data is PreviewContentMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as PreviewContentMessage).type === PREVIEW_CONTENT &&
+    typeof (data as PreviewContentMessage).path === "string"
+  );
+}
+
+export function isPreviewReadyMessage(data: unknown): data is PreviewReadyMessage {
+  return typeof data === "object" && data !== null && (data as PreviewReadyMessage).type === PREVIEW_READY;
+}
+
+// Compares content paths given with or without the `content/` prefix
+export function isSameContentFile(a: string, b: string): boolean {
+  try {
+    return normalizeContentPath(a) === normalizeContentPath(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the URL of the page previewing a content file from the configured
+ * route, where `{path}` is replaced with the file path without `.json`,
+ * e.g. `/{path}` previews `posts/hello.json` at `/posts/hello`.
+ */
+export function getPreviewUrl(route: string, filePath: string): string {
+  const slug = normalizeContentPath(filePath).replace(/\.json$/, "");
+  return route.replace(/\{path\}/g, slug.split("/").map(encodeURIComponent).join("/"));
+}
@@ -0,0 +1,18 @@
+import './globals.css';
+
+export const metadata = {
+  title: 'JSON CMS',
+  description: 'A headless CMS for managing JSON content',
+};
+
+export default function RootLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
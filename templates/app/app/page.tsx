@@ -0,0 +1,17 @@
+import { ContentDisplay, ContentData } from '@/components/home/ContentDisplay';
+import { ContentLoader } from '@/services/contentLoader';
+import { CONTENT_DIR } from '@/services/storage/utils';
+
+const loader = new ContentLoader<{ example: ContentData }>({ contentDir: CONTENT_DIR });
+
+export default async function Home() {
+  const content = await loader.getContent('example');
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
+      <div className="py-8">
+        <ContentDisplay content={content} />
+      </div>
+    </main>
+  );
+}
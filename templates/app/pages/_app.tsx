@@ -0,0 +1,8 @@
+// The editor and its API routes use the Pages Router, which Next.js serves
+// next to the app directory. Pages need their own entry for global styles.
+import '@/styles/json-cms.css';
+import type { AppProps } from 'next/app';
+
+export default function App({ Component, pageProps }: AppProps) {
+  return <Component {...pageProps} />;
+}
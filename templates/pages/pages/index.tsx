@@ -0,0 +1,20 @@
+import type { GetStaticProps } from 'next';
+import { ContentDisplay, ContentData } from '@/components/home/ContentDisplay';
+import { ContentLoader } from '@/services/contentLoader';
+import { CONTENT_DIR } from '@/services/storage/utils';
+
+const loader = new ContentLoader<{ example: ContentData }>({ contentDir: CONTENT_DIR });
+
+export const getStaticProps: GetStaticProps<{ content: ContentData }> = async () => {
+  return { props: { content: await loader.getContent('example') } };
+};
+
+export default function Home({ content }: { content: ContentData }) {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
+      <div className="py-8">
+        <ContentDisplay content={content} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import Link from 'next/link';
+import { usePreviewContent } from '@/hooks/usePreviewContent';
+
+interface Feature {
+  id: number;
+  title: string;
+  description: string;
+}
+
+interface CTA {
+  text: string;
+  link: string;
+}
+
+export interface ContentData {
+  title: string;
+  description: string;
+  features: Feature[];
+  cta: CTA;
+}
+
+// Renders content/example.json, showing unsaved edits in the editor preview
+export function ContentDisplay({ content: loaded }: { content: ContentData }) {
+  const content = usePreviewContent('example.json', loaded);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      {/* Hero Section */}
+      <div className="text-center mb-16">
+        <h1 className="text-4xl sm:text-5xl font-bold text-gray-900 mb-6">
+          {content.title}
+        </h1>
+        <p className="text-xl text-gray-600 mb-8 max-w-3xl mx-auto">
+          {content.description}
+        </p>
+        <Link
+          href={content.cta.link}
+          className="inline-flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          {content.cta.text}
+        </Link>
+      </div>
+
+      {/* Features Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {content.features.map((feature) => (
+          <div
+            key={feature.id}
+            className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow"
+          >
+            <h3 className="text-xl font-semibold text-gray-900 mb-3">
+              {feature.title}
+            </h3>
+            <p className="text-gray-600">
+              {feature.description}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}